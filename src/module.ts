@@ -1,5 +1,48 @@
-import { defineNuxtModule, addComponentsDir, addImports, createResolver } from "@nuxt/kit";
-import type { ModuleOptions } from "./runtime/types";
+import { createRequire } from "node:module";
+import {
+  defineNuxtModule,
+  addComponentsDir,
+  addImports,
+  addPlugin,
+  addServerHandler,
+  createResolver,
+  useLogger,
+} from "@nuxt/kit";
+import type { BlueskyOAuthOptions, ModuleOptions } from "./runtime/types";
+import { DEFAULT_JETSTREAM_URL } from "./runtime/composables/live.logic";
+import {
+  DEFAULT_SNAPSHOT_ROUTE,
+  snapshotPrerenderRoute,
+} from "./runtime/composables/snapshot.logic";
+
+/**
+ * Resolve the esm.sh URL for the installed @atproto/api version
+ */
+function resolveEsmShUrl(): string {
+  const require = createRequire(import.meta.url);
+  const { version } = require("@atproto/api/package.json") as { version: string };
+  return `https://esm.sh/@atproto/api@${version}`;
+}
+
+/**
+ * Complete OAuth client metadata with the values required for a browser (public, DPoP) client
+ */
+function resolveOAuthClientMetadata(
+  metadata: NonNullable<BlueskyOAuthOptions["clientMetadata"]>,
+): NonNullable<BlueskyOAuthOptions["clientMetadata"]> {
+  const { origin } = new URL(metadata.client_id);
+  return {
+    client_uri: origin,
+    redirect_uris: [`${origin}/`],
+    scope: "atproto transition:generic",
+    grant_types: ["authorization_code", "refresh_token"],
+    response_types: ["code"],
+    token_endpoint_auth_method: "none",
+    application_type: "web",
+    dpop_bound_access_tokens: true,
+    ...metadata,
+  };
+}
 
 export default defineNuxtModule<ModuleOptions>({
   meta: {
@@ -11,9 +54,141 @@ export default defineNuxtModule<ModuleOptions>({
   },
   defaults: {
     apiService: "https://public.api.bsky.app",
+    atprotoSource: "bundled",
+    proxy: false,
   },
-  async setup(_options, _nuxt) {
+  async setup(options, nuxt) {
     const resolver = createResolver(import.meta.url);
+    const logger = useLogger("nuxt-bluesky-comments");
+
+    if (options.atprotoSource === "esm.sh" && !options.atprotoCdnUrl) {
+      options.atprotoCdnUrl = resolveEsmShUrl();
+    }
+
+    if (options.atprotoSource === "cdn" && !options.atprotoCdnUrl) {
+      logger.warn(
+        "`atprotoSource: 'cdn'` requires `atprotoCdnUrl`, falling back to the bundled package",
+      );
+      options.atprotoSource = "bundled";
+    }
+
+    if (options.proxy) {
+      options.proxy = {
+        route: "/api/_bluesky/thread",
+        maxAge: 60,
+        discoverRoute: "/api/_bluesky/discover",
+        quotesRoute: "/api/_bluesky/quotes",
+        engagementRoute: "/api/_bluesky/engagement",
+        liveRoute: "/api/_bluesky/live",
+        jetstreamUrl: DEFAULT_JETSTREAM_URL,
+        ...(typeof options.proxy === "object" ? options.proxy : {}),
+      };
+
+      // Cached thread proxy
+      addServerHandler({
+        route: options.proxy.route,
+        method: "get",
+        handler: resolver.resolve("./runtime/server/api/thread.get"),
+      });
+      // Cached post discovery for the `discover` mode
+      addServerHandler({
+        route: options.proxy.discoverRoute,
+        method: "get",
+        handler: resolver.resolve("./runtime/server/api/discover.get"),
+      });
+      // Cached quote post pages for the "Quotes" tab
+      addServerHandler({
+        route: options.proxy.quotesRoute,
+        method: "get",
+        handler: resolver.resolve("./runtime/server/api/quotes.get"),
+      });
+      // Cached likers / reposters pages for facepiles
+      addServerHandler({
+        route: options.proxy.engagementRoute,
+        method: "get",
+        handler: resolver.resolve("./runtime/server/api/engagement.get"),
+      });
+      // Replies relayed from one shared Jetstream connection for `live: 'jetstream'`
+      addServerHandler({
+        route: options.proxy.liveRoute,
+        method: "get",
+        handler: resolver.resolve("./runtime/server/api/live.get"),
+      });
+    }
+
+    if (options.snapshots) {
+      const snapshots = {
+        route: DEFAULT_SNAPSHOT_ROUTE,
+        posts: [],
+        revalidate: true,
+        ...(typeof options.snapshots === "object" ? options.snapshots : {}),
+      };
+      options.snapshots = snapshots;
+
+      // Snapshot files are fetched while prerendering and written to the static output
+      addServerHandler({
+        route: `${snapshots.route}/**`,
+        method: "get",
+        handler: resolver.resolve("./runtime/server/api/snapshot.get"),
+        env: "prerender",
+      });
+
+      // Configured posts, with the default fetch options of `<BlueskyComments>`
+      nuxt.hook("prerender:routes", ({ routes }) => {
+        for (const post of snapshots.posts) {
+          routes.add(
+            snapshotPrerenderRoute(snapshots.route, { posts: [post.trim()], flatten: true }),
+          );
+        }
+      });
+
+      // The descriptor query isn't part of the written file name (nor can files with a query be written)
+      nuxt.hook("nitro:init", (nitro) => {
+        nitro.hooks.hook("prerender:generate", (route) => {
+          if (!route.route.startsWith(`${snapshots.route}/`)) return;
+          route.route = route.route.replace(/\?.*$/, "");
+          route.fileName = route.fileName?.replace(/\?.*$/, "");
+        });
+      });
+    }
+
+    const clientMetadata = options.oauth ? options.oauth.clientMetadata : undefined;
+    if (options.oauth && clientMetadata) {
+      const clientId = URL.canParse(clientMetadata.client_id)
+        ? new URL(clientMetadata.client_id)
+        : undefined;
+
+      if (clientId?.protocol !== "https:") {
+        logger.warn("`oauth.clientMetadata.client_id` must be an https URL, sign-in is disabled");
+        options.oauth = false;
+      } else {
+        options.oauth = {
+          ...options.oauth,
+          clientMetadata: resolveOAuthClientMetadata(clientMetadata),
+        };
+
+        // The client ID is the URL of the metadata document
+        addServerHandler({
+          route: clientId.pathname,
+          method: "get",
+          handler: resolver.resolve("./runtime/server/api/oauth-client-metadata.get"),
+        });
+      }
+    }
+
+    // Expose options to the runtime (overridable via NUXT_PUBLIC_BLUESKY_COMMENTS_* env vars)
+    nuxt.options.runtimeConfig.public.blueskyComments = {
+      ...options,
+      ...nuxt.options.runtimeConfig.public.blueskyComments,
+    };
+
+    // Configure the @atproto/api loader
+    addPlugin(resolver.resolve("./runtime/plugin"));
+
+    // Restore the Bluesky session in the browser
+    if (options.oauth) {
+      addPlugin({ src: resolver.resolve("./runtime/auth.client"), mode: "client" });
+    }
 
     // Register components
     addComponentsDir({
@@ -29,8 +204,84 @@ export default defineNuxtModule<ModuleOptions>({
       as: "useBlueskyComments",
       from: resolver.resolve("./runtime/composables/useBlueskyComments"),
     });
+    addImports({
+      name: "useBlueskyQuotes",
+      as: "useBlueskyQuotes",
+      from: resolver.resolve("./runtime/composables/useBlueskyQuotes"),
+    });
+    addImports({
+      name: "useBlueskyEngagement",
+      as: "useBlueskyEngagement",
+      from: resolver.resolve("./runtime/composables/useBlueskyEngagement"),
+    });
+    addImports({
+      name: "useBlueskyI18n",
+      as: "useBlueskyI18n",
+      from: resolver.resolve("./runtime/composables/useBlueskyI18n"),
+    });
+    addImports({
+      name: "invalidateBlueskyCache",
+      as: "invalidateBlueskyCache",
+      from: resolver.resolve("./runtime/composables/cache"),
+    });
+    addImports({
+      name: "discoverBlueskyPost",
+      as: "discoverBlueskyPost",
+      from: resolver.resolve("./runtime/composables/discover"),
+    });
+    addImports({
+      name: "useBlueskyAuth",
+      as: "useBlueskyAuth",
+      from: resolver.resolve("./runtime/composables/useBlueskyAuth"),
+    });
+    addImports(
+      ["useCommentTree", "useCommentCollapse", "useCommentPagination", "useCommentWindow"].map(
+        (name) => ({
+          name,
+          as: name,
+          from: resolver.resolve("./runtime/composables/useCommentTree"),
+        }),
+      ),
+    );
   },
 });
 
 // Export types
-export type { ModuleOptions } from "./runtime/types";
+export type {
+  AtprotoSource,
+  BlueskyActor,
+  BlueskyAuth,
+  BlueskyCacheOptions,
+  BlueskyDiscoverOptions,
+  BlueskyEngagementPage,
+  BlueskyEngagementResult,
+  BlueskyMessages,
+  BlueskyOAuthOptions,
+  BlueskyProxyOptions,
+  BlueskyQuotesPage,
+  BlueskyQuotesResult,
+  BlueskyRole,
+  BlueskySnapshot,
+  BlueskySnapshotOptions,
+  BlueskyThreadSource,
+  BlueskyViewer,
+  CacheStorage,
+  CommentBadge,
+  CommentComparator,
+  CommentSortOrder,
+  CommentTreeRow,
+  CommentWindow,
+  DiscoverPostOptions,
+  EngagementKind,
+  FlattenedComment,
+  LiveMode,
+  LiveOptions,
+  ModuleOptions,
+  StructuredDataOptions,
+} from "./runtime/types";
+
+declare module "@nuxt/schema" {
+  interface PublicRuntimeConfig {
+    blueskyComments: ModuleOptions;
+  }
+}
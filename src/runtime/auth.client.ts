@@ -0,0 +1,21 @@
+import type { Plugin } from "#app";
+import { defineNuxtPlugin, onNuxtReady, useRouter, useRuntimeConfig } from "#imports";
+import { initBlueskyAuth } from "./composables/useBlueskyAuth";
+
+const plugin: Plugin = defineNuxtPlugin(() => {
+  const oauth = useRuntimeConfig().public.blueskyComments?.oauth;
+  if (!oauth) return;
+
+  const router = useRouter();
+
+  // After hydration, so a restored session doesn't cause a hydration mismatch
+  onNuxtReady(async () => {
+    const returnTo = await initBlueskyAuth(oauth);
+    // Back to the page the reader signed in from (the redirect URI may be another page)
+    if (returnTo?.startsWith("/") && returnTo !== router.currentRoute.value.fullPath) {
+      await router.replace(returnTo);
+    }
+  });
+});
+
+export default plugin;
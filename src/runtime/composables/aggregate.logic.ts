@@ -0,0 +1,126 @@
+import type { BlueskyThreadData, BlueskyThreadSource, FlattenedComment } from "../types";
+
+export type SourceThreadResult = {
+  /** Post URL or AT URI as passed */
+  input: string;
+  thread?: BlueskyThreadData;
+  error?: string;
+};
+
+/**
+ * Mark a comment tree as belonging to the aggregated post `source`
+ */
+export function tagSource(comments: FlattenedComment[], source: string): FlattenedComment[] {
+  return comments.map((comment) => ({
+    ...comment,
+    source,
+    replies: tagSource(comment.replies, source),
+  }));
+}
+
+/**
+ * Drop comments already seen in an earlier thread, e.g. when a follow-up post is itself a reply
+ * to the launch post, its replies show up in both threads
+ */
+function dedupeComments(comments: FlattenedComment[], seen: Set<string>): FlattenedComment[] {
+  const result: FlattenedComment[] = [];
+  for (const comment of comments) {
+    if (seen.has(comment.uri)) continue;
+    seen.add(comment.uri);
+    result.push({ ...comment, replies: dedupeComments(comment.replies, seen) });
+  }
+  return result;
+}
+
+/**
+ * Merge the threads of several posts into one discussion.
+ * The first loaded post is the primary one (post, link and reply restrictions), stats are summed
+ * and comments are de-duplicated by URI and tagged with their source post.
+ * The thread is null when every source failed.
+ */
+export function mergeSourceThreads(results: SourceThreadResult[]): {
+  thread: BlueskyThreadData | null;
+  sources: BlueskyThreadSource[];
+} {
+  const sources = results.map(({ input, thread, error }): BlueskyThreadSource => {
+    if (!thread) return { input, error: error ?? "Failed to load comments" };
+    return {
+      input,
+      uri: thread.post.uri,
+      cid: thread.post.cid,
+      authorDid: thread.post.author.did,
+      postUrl: thread.postUrl,
+    };
+  });
+
+  // The same post passed twice (e.g. as URL and AT URI) counts once
+  const loaded = new Map<string, BlueskyThreadData>();
+  for (const { thread } of results) {
+    if (thread && !loaded.has(thread.post.uri)) loaded.set(thread.post.uri, thread);
+  }
+
+  const threads = [...loaded.values()];
+  const primary = threads[0];
+  if (!primary) return { thread: null, sources };
+
+  const seen = new Set<string>();
+  const comments = threads.flatMap((thread) =>
+    dedupeComments(tagSource(thread.comments, thread.post.uri), seen),
+  );
+
+  return {
+    thread: {
+      ...primary,
+      comments,
+      stats: {
+        likeCount: threads.reduce((sum, thread) => sum + thread.stats.likeCount, 0),
+        repostCount: threads.reduce((sum, thread) => sum + thread.stats.repostCount, 0),
+        replyCount: threads.reduce((sum, thread) => sum + thread.stats.replyCount, 0),
+        quoteCount: threads.reduce((sum, thread) => sum + thread.stats.quoteCount, 0),
+      },
+      hiddenReplies: [...new Set(threads.flatMap((thread) => thread.hiddenReplies))],
+    },
+    sources,
+  };
+}
+
+/**
+ * Order top-level comments by source post (in the order the posts were passed),
+ * keeping the sort order within each post
+ */
+export function groupCommentsBySource(
+  comments: FlattenedComment[],
+  sourceUris: string[],
+): FlattenedComment[] {
+  const index = (comment: FlattenedComment) => {
+    const i = comment.source ? sourceUris.indexOf(comment.source) : -1;
+    return i === -1 ? sourceUris.length : i;
+  };
+  // Array.prototype.sort is stable, so continuation groups stay together
+  return [...comments].sort((a, b) => index(a) - index(b));
+}
+
+/**
+ * Fetch one thread, or the threads of several posts in parallel merged into one.
+ * Throws only when every post failed.
+ */
+export async function fetchSourceThreads(
+  inputs: string[],
+  fetchThread: (input: string) => Promise<BlueskyThreadData>,
+): Promise<{ thread: BlueskyThreadData; sources: BlueskyThreadSource[] }> {
+  if (inputs.length === 1) return { thread: await fetchThread(inputs[0]!), sources: [] };
+
+  const results = await Promise.allSettled(inputs.map((input) => fetchThread(input)));
+  const { thread, sources } = mergeSourceThreads(
+    results.map((result, i) => ({
+      input: inputs[i]!,
+      thread: result.status === "fulfilled" ? result.value : undefined,
+      error:
+        result.status === "rejected" && result.reason instanceof Error
+          ? result.reason.message
+          : undefined,
+    })),
+  );
+  if (!thread) throw new Error([...new Set(sources.map((source) => source.error))].join("; "));
+  return { thread, sources };
+}
@@ -0,0 +1,73 @@
+import { parseBlueskyUrl } from "./blueskyComments.logic";
+
+/**
+ * Account (DID or handle) that published a post, from its web URL or AT URI
+ */
+export function getPostAuthority(input: string): string | null {
+  if (input.startsWith("at://")) {
+    return input.match(/^at:\/\/([^/]+)\/app\.bsky\.feed\.post\/[^/?#]+$/)?.[1] ?? null;
+  }
+  return parseBlueskyUrl(input)?.identifier ?? null;
+}
+
+const isUrlPrefix = (entry: string) => entry.includes("://");
+
+/**
+ * Whether an account (DID or handle) is one of the DIDs or handles in `allow`.
+ * Handles are resolved to compare them with DIDs; accounts that fail to resolve are not allowed.
+ */
+export async function isAllowedAccount(
+  account: string,
+  allow: string[],
+  resolveHandle: (handle: string) => Promise<string>,
+): Promise<boolean> {
+  const normalize = (value: string) => value.replace(/^@/, "").toLowerCase();
+  const accounts = allow.filter((entry) => !isUrlPrefix(entry)).map(normalize);
+  const candidate = normalize(account);
+  if (accounts.includes(candidate)) return true;
+
+  const toDid = async (value: string) => {
+    if (value.startsWith("did:")) return value;
+    try {
+      return await resolveHandle(value);
+    } catch {
+      return null;
+    }
+  };
+  const did = await toDid(candidate);
+  if (!did) return false;
+  const allowedDids = await Promise.all(accounts.map(toDid));
+  return allowedDids.includes(did);
+}
+
+/**
+ * Whether the server proxy may fetch a post (web URL or AT URI): everything without an allowlist,
+ * otherwise posts starting with an allowed URL prefix or published by an allowed account.
+ * Inputs that aren't a post URL or AT URI are never allowed, whatever prefix they start with.
+ */
+export async function isAllowedPost(
+  input: string,
+  allow: string[] | undefined,
+  resolveHandle: (handle: string) => Promise<string>,
+): Promise<boolean> {
+  if (!allow?.length) return true;
+  const authority = getPostAuthority(input);
+  if (!authority) return false;
+  if (allow.some((entry) => isUrlPrefix(entry) && input.startsWith(entry))) return true;
+  return isAllowedAccount(authority, allow, resolveHandle);
+}
+
+/**
+ * Whether the server proxy may search the post of a page: everything without an allowlist,
+ * otherwise pages starting with an allowed URL prefix or searches limited to an allowed author
+ */
+export async function isAllowedPage(
+  pageUrl: string,
+  author: string | undefined,
+  allow: string[] | undefined,
+  resolveHandle: (handle: string) => Promise<string>,
+): Promise<boolean> {
+  if (!allow?.length) return true;
+  if (allow.some((entry) => isUrlPrefix(entry) && pageUrl.startsWith(entry))) return true;
+  return !!author && isAllowedAccount(author, allow, resolveHandle);
+}
@@ -1,44 +1,81 @@
 import type {
+  Agent as AgentType,
   AtpAgent as AtpAgentType,
   AppBskyFeedDefs as AppBskyFeedDefsType,
+  RichText as RichTextType,
 } from "@atproto/api";
-
-const ESM_SH_URL = "https://esm.sh/@atproto/api@0.18.8";
+import type { AtprotoSource } from "../types";
 
 type AtProtoModule = {
+  Agent: typeof AgentType;
   AtpAgent: typeof AtpAgentType;
   AppBskyFeedDefs: typeof AppBskyFeedDefsType;
+  RichText: typeof RichTextType;
+};
+
+type AtprotoLoaderOptions = {
+  source: AtprotoSource;
+  /** Module URL used for the `esm.sh` and `cdn` sources */
+  url?: string;
 };
 
-let cachedModule: AtProtoModule | null = null;
+let loaderOptions: AtprotoLoaderOptions = { source: "bundled" };
+let cachedModule: Promise<AtProtoModule> | null = null;
+const agentInstances = new Map<string, AtpAgentType>();
 
 /**
- * Dynamically load @atproto/api from esm.sh
- * This avoids bundling the large package and loads it on-demand
+ * Configure how @atproto/api is loaded.
+ * Called by the module plugin with the values from runtime config.
+ */
+export function configureAtproto(options: AtprotoLoaderOptions): void {
+  loaderOptions = options;
+  cachedModule = null;
+  // Agents are built from the loaded module, so they go with it
+  agentInstances.clear();
+}
+
+async function importAtproto(): Promise<AtProtoModule> {
+  // Remote URLs can only be imported in the browser, the server always uses the local package
+  if (loaderOptions.source !== "bundled" && loaderOptions.url && !import.meta.server) {
+    return (await import(/* @vite-ignore */ loaderOptions.url)) as AtProtoModule;
+  }
+
+  // Kept as a dynamic import so the package ends up in a lazy-loaded chunk
+  return (await import("@atproto/api")) as AtProtoModule;
+}
+
+/**
+ * Load @atproto/api on demand using the configured source
+ * (bundled chunk, esm.sh or a custom CDN URL)
  */
 export async function loadAtproto(): Promise<AtProtoModule> {
-  if (cachedModule) {
-    return cachedModule;
+  if (!cachedModule) {
+    cachedModule = importAtproto().catch((e) => {
+      // Allow retrying after a failed (e.g. network) import
+      cachedModule = null;
+      throw e;
+    });
   }
 
-  const mod = await import(/* @vite-ignore */ ESM_SH_URL);
-  cachedModule = mod as AtProtoModule;
   return cachedModule;
 }
 
-let agentInstance: AtpAgentType | null = null;
+/**
+ * Default public Bluesky AppView used when no service is configured
+ */
+export const DEFAULT_API_SERVICE = "https://public.api.bsky.app";
 
 /**
- * Get or create the shared AtpAgent instance
+ * Get or create the shared AtpAgent instance for the given AppView service
  */
-export async function getAtpAgent(): Promise<AtpAgentType> {
-  if (agentInstance) {
-    return agentInstance;
+export async function getAtpAgent(service: string = DEFAULT_API_SERVICE): Promise<AtpAgentType> {
+  const cached = agentInstances.get(service);
+  if (cached) {
+    return cached;
   }
 
   const { AtpAgent } = await loadAtproto();
-  agentInstance = new AtpAgent({
-    service: "https://public.api.bsky.app",
-  });
-  return agentInstance;
+  const agent = new AtpAgent({ service });
+  agentInstances.set(service, agent);
+  return agent;
 }
@@ -0,0 +1,63 @@
+import type { BlueskyActor, BlueskyRole, CommentBadge } from "../types";
+
+// Handles under the default PDS domains don't say anything about the account holder
+const HOSTED_HANDLE_SUFFIXES = [".bsky.social"] as const;
+
+// Handle the AppView reports when an account's handle no longer resolves
+const INVALID_HANDLE = "handle.invalid";
+
+export type CommentBadgeOptions = {
+  /**
+   * DIDs of the discussion's post authors
+   */
+  authorDids?: string[];
+  /**
+   * Custom badges keyed by DID or handle
+   */
+  roles?: Record<string, string | BlueskyRole>;
+  /**
+   * Flag accounts with a custom-domain handle
+   */
+  domainBadge?: boolean;
+};
+
+/**
+ * Whether the handle is a domain of the account holder (e.g. `alice.com`)
+ * rather than a subdomain of a hosting provider
+ */
+export function isDomainHandle(handle: string | undefined): boolean {
+  const normalized = handle?.toLowerCase() ?? "";
+  if (!normalized || normalized === INVALID_HANDLE) return false;
+  return !HOSTED_HANDLE_SUFFIXES.some((suffix) => normalized.endsWith(suffix));
+}
+
+/**
+ * Look up the role of an account by DID, then by handle (case-insensitive, `@` optional)
+ */
+export function findRole(
+  author: Pick<BlueskyActor, "did" | "handle">,
+  roles: Record<string, string | BlueskyRole> = {},
+): BlueskyRole | undefined {
+  const handle = author.handle.toLowerCase();
+  const match =
+    roles[author.did] ??
+    Object.entries(roles).find(([key]) => key.replace(/^@/, "").toLowerCase() === handle)?.[1];
+  if (!match) return undefined;
+  return typeof match === "string" ? { label: match } : match;
+}
+
+/**
+ * Badges shown next to a comment author's name: post author first, then the site-defined role,
+ * then the custom-domain handle
+ */
+export function getCommentBadges(
+  author: Pick<BlueskyActor, "did" | "handle">,
+  options: CommentBadgeOptions = {},
+): CommentBadge[] {
+  const badges: CommentBadge[] = [];
+  if (options.authorDids?.includes(author.did)) badges.push({ type: "author" });
+  const role = findRole(author, options.roles);
+  if (role) badges.push({ type: "role", label: role.label, class: role.class });
+  if (options.domainBadge && isDomainHandle(author.handle)) badges.push({ type: "domain" });
+  return badges;
+}
@@ -1,12 +1,18 @@
 import type { AppBskyFeedDefs } from "@atproto/api";
 import type { FlattenedComment, PostRecord } from "../types";
 import { loadAtproto } from "./atproto";
+import { parseRichText } from "./richText.logic";
+import { processEmbed } from "./embed.logic";
+import { collectLabels } from "./moderation.logic";
 
 /**
  * Parse a Bluesky web URL into handle/DID and rkey.
  */
 export function parseBlueskyUrl(url: string): { identifier: string; rkey: string } | null {
-  const match = url.match(/https?:\/\/bsky\.app\/profile\/([^/]+)\/post\/([^/?#]+)/);
+  // Anchored, so a post URL embedded in another URL (e.g. in its query) isn't picked up
+  const match = url.match(
+    /^https?:\/\/bsky\.app\/profile\/([^/?#]+)\/post\/([^/?#]+)\/?(?:[?#].*)?$/,
+  );
   if (!match) return null;
 
   const identifier = match[1];
@@ -28,6 +34,39 @@ export function uriToUrl(uri: string, handle?: string): string {
   return `https://bsky.app/profile/${identifier}/post/${rkey}`;
 }
 
+/**
+ * Convert a post view into a comment without replies
+ */
+export function postToComment(
+  post: AppBskyFeedDefs.PostView,
+  depth: number = 0,
+  parentAuthorDid?: string,
+): FlattenedComment {
+  const record = post.record as PostRecord;
+  return {
+    id: post.cid,
+    uri: post.uri,
+    author: {
+      did: post.author.did,
+      handle: post.author.handle,
+      displayName: post.author.displayName,
+      avatar: post.author.avatar,
+    },
+    text: record?.text || "",
+    segments: parseRichText(record?.text || "", record?.facets),
+    embed: processEmbed(post.embed),
+    createdAt: record?.createdAt || post.indexedAt,
+    likeCount: post.likeCount || 0,
+    replyCount: post.replyCount || 0,
+    repostCount: post.repostCount || 0,
+    depth,
+    replies: [],
+    parentAuthorDid,
+    labels: collectLabels(post),
+    viewerLike: post.viewer?.like,
+  };
+}
+
 /**
  * Process thread replies into flattened comments.
  * Handles same-author consecutive reply flattening and engagement sorting.
@@ -39,6 +78,11 @@ export type ProcessRepliesOptions = {
    * @default true
    */
   flattenSameAuthorThreads?: boolean;
+  /**
+   * Reply depth the thread was fetched with, when limited (progressive loading).
+   * Replies at this depth are marked as unloaded even when the AppView returned some of theirs.
+   */
+  depthLimit?: number;
 };
 
 export async function processReplies(
@@ -61,31 +105,17 @@ export async function processReplies(
     // Skip blocked or not found posts
     if (!AppBskyFeedDefs.isThreadViewPost(reply)) continue;
 
-    const post = reply.post;
-    const author = post.author;
-    const record = post.record as PostRecord;
-
-    // Check if this is a same-author continuation
-    const isSameAuthor = parentAuthorDid === author.did;
-
-    const comment: FlattenedComment = {
-      id: post.cid,
-      uri: post.uri,
-      author: {
-        did: author.did,
-        handle: author.handle,
-        displayName: author.displayName,
-        avatar: author.avatar,
-      },
-      text: record?.text || "",
-      createdAt: record?.createdAt || post.indexedAt,
-      likeCount: post.likeCount || 0,
-      replyCount: post.replyCount || 0,
-      repostCount: post.repostCount || 0,
-      depth: isSameAuthor ? depth : depth,
-      replies: [],
-      parentAuthorDid,
-    };
+    const author = reply.post.author;
+    const comment = postToComment(reply.post, depth, parentAuthorDid);
+
+    // The AppView omits `replies` below the requested depth; those branches load on demand.
+    // Elsewhere the count also includes deleted, blocked or hidden replies, which can't be loaded.
+    const truncated =
+      !reply.replies || (options.depthLimit !== undefined && depth + 1 >= options.depthLimit);
+    if (truncated) {
+      const shown = reply.replies?.filter((r) => AppBskyFeedDefs.isThreadViewPost(r)).length ?? 0;
+      if (comment.replyCount > shown) comment.unloadedReplyCount = comment.replyCount - shown;
+    }
 
     // Process nested replies
     if (reply.replies && reply.replies.length > 0) {
@@ -103,6 +133,8 @@ export async function processReplies(
               depth: depth,
               // Preserve "continuation" semantics for avatar/indent logic
               parentAuthorDid: author.did,
+              // Keep the link to the original parent so the group can be handled as a whole
+              continuationOf: nestedReply.continuationOf ?? comment.uri,
             });
           } else {
             nestedUnderComment.push(nestedReply);
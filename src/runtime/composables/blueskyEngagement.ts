@@ -0,0 +1,60 @@
+import type { BlueskyActor, BlueskyEngagementPage, EngagementKind } from "../types";
+import { DEFAULT_API_SERVICE, getAtpAgent } from "./atproto";
+import { resolvePostUri } from "./blueskyThread";
+
+export type FetchBlueskyEngagementOptions = {
+  /**
+   * Bluesky API service URL (AppView)
+   * @default 'https://public.api.bsky.app'
+   */
+  apiService?: string;
+  /**
+   * Cursor of the page to fetch, from the previous page
+   */
+  cursor?: string;
+  /**
+   * Accounts per page (1-100)
+   * @default 25
+   */
+  limit?: number;
+  signal?: AbortSignal;
+};
+
+function toActor(profile: BlueskyActor): BlueskyActor {
+  return {
+    did: profile.did,
+    handle: profile.handle,
+    displayName: profile.displayName,
+    avatar: profile.avatar,
+  };
+}
+
+/**
+ * Fetch a page of the accounts that liked (`app.bsky.feed.getLikes`)
+ * or reposted (`app.bsky.feed.getRepostedBy`) a post.
+ * Works both in the browser and on the server.
+ */
+export async function fetchBlueskyEngagement(
+  kind: EngagementKind,
+  uriOrUrl: string,
+  options: FetchBlueskyEngagementOptions = {},
+): Promise<BlueskyEngagementPage> {
+  const { apiService = DEFAULT_API_SERVICE, cursor, limit = 25, signal } = options;
+
+  const uri = await resolvePostUri(uriOrUrl, apiService, signal);
+  const agent = await getAtpAgent(apiService);
+
+  if (kind === "likes") {
+    const { data } = await agent.app.bsky.feed.getLikes({ uri, cursor, limit }, { signal });
+    return {
+      actors: data.likes.map((like) => toActor(like.actor)),
+      cursor: data.likes.length > 0 ? data.cursor : undefined,
+    };
+  }
+
+  const { data } = await agent.app.bsky.feed.getRepostedBy({ uri, cursor, limit }, { signal });
+  return {
+    actors: data.repostedBy.map(toActor),
+    cursor: data.repostedBy.length > 0 ? data.cursor : undefined,
+  };
+}
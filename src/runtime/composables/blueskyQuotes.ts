@@ -0,0 +1,54 @@
+import type { Agent } from "@atproto/api";
+import type { BlueskyQuotesPage } from "../types";
+import { DEFAULT_API_SERVICE, getAtpAgent } from "./atproto";
+import { resolvePostUri } from "./blueskyThread";
+import { processQuotes } from "./quotes.logic";
+
+export type FetchBlueskyQuotesOptions = {
+  /**
+   * Bluesky API service URL (AppView)
+   * @default 'https://public.api.bsky.app'
+   */
+  apiService?: string;
+  /**
+   * Cursor of the page to fetch, from the previous page
+   */
+  cursor?: string;
+  /**
+   * Quotes per page (1-100)
+   * @default 25
+   */
+  limit?: number;
+  signal?: AbortSignal;
+  /**
+   * Authenticated agent of the signed-in reader
+   */
+  agent?: Agent;
+};
+
+/**
+ * Fetch a page of the posts quoting a post with `app.bsky.feed.getQuotes`.
+ * Works both in the browser and on the server.
+ */
+export async function fetchBlueskyQuotes(
+  uriOrUrl: string,
+  options: FetchBlueskyQuotesOptions = {},
+): Promise<BlueskyQuotesPage> {
+  const {
+    apiService = DEFAULT_API_SERVICE,
+    cursor,
+    limit = 25,
+    signal,
+    agent: viewerAgent,
+  } = options;
+
+  const uri = await resolvePostUri(uriOrUrl, apiService, signal, viewerAgent);
+  const agent = viewerAgent ?? (await getAtpAgent(apiService));
+  const { data } = await agent.app.bsky.feed.getQuotes({ uri, cursor, limit }, { signal });
+
+  return {
+    quotes: processQuotes(data.posts, uri),
+    // The AppView may return a cursor with an empty last page
+    cursor: data.posts.length > 0 ? data.cursor : undefined,
+  };
+}
@@ -0,0 +1,162 @@
+import type { Agent } from "@atproto/api";
+import type { BlueskyThreadData, ThreadViewPost } from "../types";
+import {
+  parseBlueskyUrl,
+  processReplies,
+  uriToUrl,
+  type ProcessRepliesOptions,
+} from "./blueskyComments.logic";
+import { DEFAULT_API_SERVICE, getAtpAgent, loadAtproto } from "./atproto";
+import { dedupeRequest, resolveHandleCached } from "./cache";
+import { getHiddenReplies, getReplyGate } from "./threadgate.logic";
+
+export type FetchBlueskyThreadOptions = Omit<ProcessRepliesOptions, "depthLimit"> & {
+  /**
+   * Bluesky API service URL (AppView)
+   * @default 'https://public.api.bsky.app'
+   */
+  apiService?: string;
+  /**
+   * Reply depth to fetch. Deeper replies are marked with `unloadedReplyCount`.
+   * @default 1000
+   */
+  depth?: number;
+  /**
+   * Abort the requests (e.g. when the post changes before the thread has loaded)
+   */
+  signal?: AbortSignal;
+  /**
+   * Authenticated agent of the signed-in reader, used instead of the public AppView
+   * so posts include the reader's like state
+   */
+  agent?: Agent;
+};
+
+/**
+ * Resolve a Bluesky web URL or AT URI into an AT URI.
+ */
+export async function resolvePostUri(
+  input: string,
+  apiService: string = DEFAULT_API_SERVICE,
+  signal?: AbortSignal,
+  agent?: Agent,
+): Promise<string> {
+  // Already an AT URI
+  if (input.startsWith("at://")) {
+    return input;
+  }
+
+  // Parse Bluesky URL
+  const parsed = parseBlueskyUrl(input);
+  if (!parsed) {
+    throw new Error("Invalid Bluesky URL format");
+  }
+
+  const { identifier, rkey } = parsed;
+
+  // If it's already a DID, use it directly
+  if (identifier.startsWith("did:")) {
+    return `at://${identifier}/app.bsky.feed.post/${rkey}`;
+  }
+
+  // Resolve handle to DID (cached for the page, handles rarely change)
+  const did = await resolveHandleCached(
+    identifier,
+    async (requestSignal) => {
+      const { data } = await (agent ?? (await getAtpAgent(apiService))).resolveHandle(
+        { handle: identifier },
+        { signal: requestSignal },
+      );
+      return data.did;
+    },
+    signal,
+  );
+  return `at://${did}/app.bsky.feed.post/${rkey}`;
+}
+
+/**
+ * Fetch a post thread and process its replies into flattened comments.
+ * Works both in the browser and on the server.
+ * Concurrent public fetches of the same post and options share one request.
+ */
+export async function fetchBlueskyThread(
+  uriOrUrl: string,
+  options: FetchBlueskyThreadOptions = {},
+): Promise<BlueskyThreadData> {
+  const { apiService = DEFAULT_API_SERVICE, depth = 1000, signal, agent: viewerAgent } = options;
+
+  const uri = await resolvePostUri(uriOrUrl, apiService, signal, viewerAgent);
+
+  // The signed-in reader's like state is their own
+  if (viewerAgent) return fetchResolvedThread(uri, { ...options, signal });
+
+  const flatten = options.flattenSameAuthorThreads ?? true;
+  return dedupeRequest(
+    `thread:${apiService}:${uri}:${depth}:${flatten}`,
+    (requestSignal) => fetchResolvedThread(uri, { ...options, signal: requestSignal }),
+    signal,
+  );
+}
+
+async function fetchResolvedThread(
+  uri: string,
+  options: FetchBlueskyThreadOptions,
+): Promise<BlueskyThreadData> {
+  const {
+    apiService = DEFAULT_API_SERVICE,
+    depth = 1000,
+    signal,
+    agent: viewerAgent,
+    ...processOptions
+  } = options;
+
+  const { AppBskyFeedDefs } = await loadAtproto();
+  const agent = viewerAgent ?? (await getAtpAgent(apiService));
+
+  // Fetch the full thread with maximum depth
+  const response = await agent.getPostThread(
+    {
+      uri,
+      depth,
+      parentHeight: 0, // We don't need parent context
+    },
+    { signal },
+  );
+
+  if (!response.success) {
+    throw new Error(`Failed to fetch post: ${uri}`);
+  }
+
+  const { data } = response;
+
+  if (!AppBskyFeedDefs.isThreadViewPost(data.thread)) {
+    // Check if it's a blocked or not found post
+    if (AppBskyFeedDefs.isBlockedPost(data.thread)) {
+      throw new Error("This post is from a blocked account");
+    }
+    if (AppBskyFeedDefs.isNotFoundPost(data.thread)) {
+      throw new Error(`Post not found: ${uri}`);
+    }
+    throw new Error("Post not found or not accessible");
+  }
+
+  const thread = data.thread as ThreadViewPost;
+  const threadgate = thread.post.threadgate ?? data.threadgate;
+
+  return {
+    post: thread.post,
+    stats: {
+      likeCount: thread.post.likeCount || 0,
+      repostCount: thread.post.repostCount || 0,
+      replyCount: thread.post.replyCount || 0,
+      quoteCount: thread.post.quoteCount || 0,
+    },
+    postUrl: uriToUrl(uri, thread.post.author.handle),
+    hiddenReplies: getHiddenReplies(threadgate),
+    replyGate: getReplyGate(threadgate),
+    comments: await processReplies(thread.replies, thread.post.author.did, 0, {
+      ...processOptions,
+      depthLimit: options.depth,
+    }),
+  };
+}
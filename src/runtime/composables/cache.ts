@@ -0,0 +1,330 @@
+import type { BlueskyCacheOptions, CacheStorage } from "../types";
+
+export const DEFAULT_CACHE_TTL = 24 * 60 * 60;
+export const DEFAULT_CACHE_MAX_ENTRIES = 50;
+
+/**
+ * Cached value with the posts it belongs to, for invalidation by post
+ */
+export type CacheEntry<T> = {
+  value: T;
+  /** Post URLs or AT URIs the value was fetched for */
+  posts: string[];
+  /** Milliseconds since the epoch */
+  storedAt: number;
+};
+
+/**
+ * Key-value store behind the thread cache
+ */
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Keys of the stored entries with the time they were stored */
+  list(): Promise<Array<{ key: string; storedAt: number }>>;
+  /** Remove the entries matching `filter`, or all of them */
+  clear(filter?: (entry: CacheEntry<unknown>) => boolean): Promise<void>;
+}
+
+type SharedRequest = {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiting: number;
+};
+
+const inFlight = new Map<string, SharedRequest>();
+
+/**
+ * Share one request between callers asking for the same `key` while it is in flight.
+ * Each caller can abort its own wait; the request itself is aborted once nobody waits for it.
+ */
+export function dedupeRequest<T>(
+  key: string,
+  request: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal,
+): Promise<T> {
+  let shared = inFlight.get(key);
+  if (!shared) {
+    const controller = new AbortController();
+    const created: SharedRequest = {
+      controller,
+      waiting: 0,
+      promise: request(controller.signal).finally(() => {
+        if (inFlight.get(key) === created) inFlight.delete(key);
+      }),
+    };
+    inFlight.set(key, created);
+    shared = created;
+  }
+
+  const current = shared;
+  current.waiting++;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      reject(signal!.reason);
+      if (--current.waiting > 0) return;
+      current.controller.abort(signal!.reason);
+      if (inFlight.get(key) === current) inFlight.delete(key);
+    };
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
+    current.promise.then(
+      (value) => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve(value as T);
+      },
+      (e) => {
+        signal?.removeEventListener("abort", onAbort);
+        reject(e);
+      },
+    );
+  });
+}
+
+// Handles are moved very rarely, so resolved DIDs are kept until the page is reloaded.
+// On the server, handles come from clients through the proxy routes: the oldest are dropped past this size.
+const MAX_RESOLVED_HANDLES = 1000;
+const resolvedHandles = new Map<string, string>();
+
+/**
+ * Resolve a handle to its DID once per page, sharing concurrent lookups
+ */
+export async function resolveHandleCached(
+  handle: string,
+  resolve: (signal: AbortSignal) => Promise<string>,
+  signal?: AbortSignal,
+): Promise<string> {
+  const key = handle.toLowerCase();
+  const cached = resolvedHandles.get(key);
+  if (cached) return cached;
+
+  const did = await dedupeRequest(`handle:${key}`, resolve, signal);
+  resolvedHandles.set(key, did);
+  // Maps iterate in insertion order, so the first key is the oldest handle
+  for (const oldest of resolvedHandles.keys()) {
+    if (resolvedHandles.size <= MAX_RESOLVED_HANDLES) break;
+    resolvedHandles.delete(oldest);
+  }
+  return did;
+}
+
+function createMemoryStore(): CacheStore {
+  const entries = new Map<string, CacheEntry<unknown>>();
+  return {
+    async get<T>(key: string) {
+      return entries.get(key) as CacheEntry<T> | undefined;
+    },
+    async set(key, entry) {
+      entries.set(key, entry);
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+    async list() {
+      return [...entries].map(([key, entry]) => ({ key, storedAt: entry.storedAt }));
+    },
+    async clear(filter) {
+      for (const [key, entry] of entries) {
+        if (!filter || filter(entry)) entries.delete(key);
+      }
+    },
+  };
+}
+
+const STORAGE_PREFIX = "bluesky-comments:";
+
+function createLocalStorageStore(storage: Storage): CacheStore {
+  const keys = () =>
+    Array.from({ length: storage.length }, (_, i) => storage.key(i)).filter(
+      (key): key is string => !!key?.startsWith(STORAGE_PREFIX),
+    );
+  const read = (key: string): CacheEntry<unknown> | undefined => {
+    try {
+      const raw = storage.getItem(key);
+      return raw ? (JSON.parse(raw) as CacheEntry<unknown>) : undefined;
+    } catch {
+      return undefined;
+    }
+  };
+  return {
+    async get<T>(key: string) {
+      return read(STORAGE_PREFIX + key) as CacheEntry<T> | undefined;
+    },
+    async set(key, entry) {
+      try {
+        storage.setItem(STORAGE_PREFIX + key, JSON.stringify(entry));
+      } catch {
+        // Quota exceeded or storage disabled: the thread is fetched next time
+      }
+    },
+    async delete(key) {
+      storage.removeItem(STORAGE_PREFIX + key);
+    },
+    async list() {
+      // Unreadable entries sort first, so they are pruned
+      return keys().map((key) => ({
+        key: key.slice(STORAGE_PREFIX.length),
+        storedAt: read(key)?.storedAt ?? 0,
+      }));
+    },
+    async clear(filter) {
+      for (const key of keys()) {
+        const entry = read(key);
+        if (!filter || !entry || filter(entry)) storage.removeItem(key);
+      }
+    },
+  };
+}
+
+const IDB_NAME = "nuxt-bluesky-comments";
+const IDB_STORE = "threads";
+
+function createIndexedDbStore(factory: IDBFactory): CacheStore {
+  let database: Promise<IDBDatabase> | undefined;
+  const open = () => {
+    database ??= new Promise((resolve, reject) => {
+      const request = factory.open(IDB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(IDB_STORE);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return database;
+  };
+  const run = async <R>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<R>,
+  ): Promise<R | undefined> => {
+    try {
+      const store = (await open()).transaction(IDB_STORE, mode).objectStore(IDB_STORE);
+      return await new Promise<R>((resolve, reject) => {
+        const request = action(store);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    } catch {
+      // Private browsing or blocked storage: behave like an empty cache
+      return undefined;
+    }
+  };
+  return {
+    async get<T>(key: string) {
+      return (await run("readonly", (store) => store.get(key))) as CacheEntry<T> | undefined;
+    },
+    async set(key, entry) {
+      await run("readwrite", (store) => store.put(entry, key));
+    },
+    async delete(key) {
+      await run("readwrite", (store) => store.delete(key));
+    },
+    async list() {
+      // Both lists are sorted by key
+      const keys = (await run("readonly", (store) => store.getAllKeys())) ?? [];
+      const entries =
+        (await run<CacheEntry<unknown>[]>("readonly", (store) => store.getAll())) ?? [];
+      return keys.map((key, i) => ({ key: String(key), storedAt: entries[i]?.storedAt ?? 0 }));
+    },
+    async clear(filter) {
+      if (!filter) {
+        await run("readwrite", (store) => store.clear());
+        return;
+      }
+      const keys = (await run("readonly", (store) => store.getAllKeys())) ?? [];
+      for (const key of keys) {
+        const entry = await run<CacheEntry<unknown>>("readonly", (store) => store.get(key));
+        if (!entry || filter(entry)) await run("readwrite", (store) => store.delete(key));
+      }
+    },
+  };
+}
+
+const stores = new Map<CacheStorage, CacheStore>();
+
+/**
+ * Shared store for a storage type. Falls back to memory where the browser storage is unavailable
+ * (e.g. during SSR).
+ */
+export function getCacheStore(storage: CacheStorage = "memory"): CacheStore {
+  let store = stores.get(storage);
+  if (!store) {
+    if (storage === "localStorage" && typeof localStorage !== "undefined") {
+      store = createLocalStorageStore(localStorage);
+    } else if (storage === "indexedDB" && typeof indexedDB !== "undefined") {
+      store = createIndexedDbStore(indexedDB);
+    } else {
+      store = stores.get("memory") ?? createMemoryStore();
+      stores.set("memory", store);
+    }
+    stores.set(storage, store);
+  }
+  return store;
+}
+
+/**
+ * Resolve the `cache` option, null when threads are not cached
+ */
+export function resolveCacheOptions(
+  cache: boolean | BlueskyCacheOptions | undefined,
+): Required<BlueskyCacheOptions> | null {
+  if (!cache) return null;
+  const {
+    storage = "memory",
+    ttl = DEFAULT_CACHE_TTL,
+    maxEntries = DEFAULT_CACHE_MAX_ENTRIES,
+  } = cache === true ? {} : cache;
+  return { storage, ttl, maxEntries };
+}
+
+/**
+ * Read a cached value unless it is older than `ttl` seconds; an expired value is deleted
+ */
+export async function readCache<T>(
+  store: CacheStore,
+  key: string,
+  ttl: number,
+  now: number = Date.now(),
+): Promise<CacheEntry<T> | undefined> {
+  const entry = await store.get<T>(key);
+  if (entry && now - entry.storedAt > ttl * 1000) {
+    await store.delete(key);
+    return undefined;
+  }
+  return entry;
+}
+
+/**
+ * Store a value, first deleting the entries older than `ttl` seconds and the oldest ones
+ * past `maxEntries`, so browser storage doesn't fill up with threads never read again
+ */
+export async function writeCache<T>(
+  store: CacheStore,
+  key: string,
+  entry: CacheEntry<T>,
+  options: { ttl: number; maxEntries: number },
+  now: number = Date.now(),
+): Promise<void> {
+  const others = (await store.list())
+    .filter((other) => other.key !== key)
+    .sort((a, b) => b.storedAt - a.storedAt);
+  const stale = others.filter(
+    (other, index) => index >= options.maxEntries - 1 || now - other.storedAt > options.ttl * 1000,
+  );
+  await Promise.all(stale.map((other) => store.delete(other.key)));
+  await store.set(key, entry);
+}
+
+/**
+ * Drop cached threads, and with them handles resolved and requests in flight.
+ * With a post (URL or AT URI), only the threads that include it are dropped.
+ */
+export async function invalidateBlueskyCache(post?: string): Promise<void> {
+  if (!post) {
+    resolvedHandles.clear();
+    inFlight.clear();
+  }
+  const filter = post ? (entry: CacheEntry<unknown>) => entry.posts.includes(post) : undefined;
+  await Promise.all([...new Set(stores.values())].map((store) => store.clear(filter)));
+}
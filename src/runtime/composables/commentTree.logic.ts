@@ -0,0 +1,196 @@
+import type { CommentTreeRow, FlattenedComment } from "../types";
+
+/**
+ * Count all nested replies of a comment (used for the collapsed indicator)
+ */
+export function countAllReplies(comment: FlattenedComment): number {
+  let count = comment.replies?.length || 0;
+  for (const reply of comment.replies || []) {
+    count += countAllReplies(reply);
+  }
+  return count;
+}
+
+/**
+ * Whether a reply is indented under its parent.
+ * Same-author replies stay at the parent's level, so a self-thread reads as one column.
+ */
+export function isIndentedReply(reply: FlattenedComment, parent: FlattenedComment): boolean {
+  return reply.author.did !== parent.author.did;
+}
+
+/**
+ * Replies of a comment (the first `limit` of them), marking the last indented sibling shown
+ * (its connector terminates the parent thread line).
+ */
+export function getReplyItems(
+  comment: FlattenedComment,
+  limit: number = Number.POSITIVE_INFINITY,
+): { reply: FlattenedComment; isLastIndentedSibling: boolean }[] {
+  const replies = (comment.replies || []).slice(0, limit);
+  let lastIndentedIndex = -1;
+  for (let i = replies.length - 1; i >= 0; i -= 1) {
+    const reply = replies[i];
+    if (reply && isIndentedReply(reply, comment)) {
+      lastIndentedIndex = i;
+      break;
+    }
+  }
+
+  return replies.map((reply, index) => ({
+    reply,
+    isLastIndentedSibling: index === lastIndentedIndex && isIndentedReply(reply, comment),
+  }));
+}
+
+/**
+ * Walk the comment tree depth-first into render rows, skipping the replies of collapsed comments
+ */
+export function flattenCommentTree(
+  comments: FlattenedComment[],
+  isCollapsed: (comment: FlattenedComment) => boolean = () => false,
+): CommentTreeRow[] {
+  const rows: CommentTreeRow[] = [];
+
+  function visit(
+    comment: FlattenedComment,
+    depth: number,
+    level: number,
+    parent: FlattenedComment | undefined,
+    isLastSibling: boolean,
+  ) {
+    const collapsed = comment.replies.length > 0 && isCollapsed(comment);
+    rows.push({
+      comment,
+      depth,
+      level,
+      parentAuthorDid: parent?.author.did,
+      indented: !!parent && isIndentedReply(comment, parent),
+      isLastSibling,
+      collapsed,
+      hiddenReplyCount: collapsed ? countAllReplies(comment) : 0,
+    });
+    if (collapsed) return;
+
+    for (const { reply, isLastIndentedSibling } of getReplyItems(comment)) {
+      const indented = isIndentedReply(reply, comment);
+      visit(reply, depth + 1, level + (indented ? 1 : 0), comment, isLastIndentedSibling);
+    }
+  }
+
+  for (const comment of comments) {
+    visit(comment, 0, 0, undefined, false);
+  }
+  return rows;
+}
+
+function shiftDepth(comments: FlattenedComment[], offset: number): FlattenedComment[] {
+  return comments.map((comment) => ({
+    ...comment,
+    depth: comment.depth + offset,
+    replies: shiftDepth(comment.replies, offset),
+  }));
+}
+
+/**
+ * Merge a separately fetched subtree (the comments of a thread rooted at `uri`, processed at depth 0)
+ * into the tree. Same-author replies are promoted next to the target when flattening is enabled,
+ * mirroring `processReplies`. The subtree replaces the replies already shown for the target
+ * (a partial set). Returns a new tree; the input is not mutated.
+ */
+export function mergeLoadedReplies(
+  comments: FlattenedComment[],
+  uri: string,
+  loaded: FlattenedComment[],
+  options: { flattenSameAuthorThreads?: boolean } = {},
+): FlattenedComment[] {
+  const flattenSameAuthorThreads = options.flattenSameAuthorThreads ?? true;
+  const result: FlattenedComment[] = [];
+  // Continuations promoted from a partial set of replies come back with the subtree, including
+  // those promoted through another continuation (they follow their parent in the list)
+  const replaced = new Set([uri]);
+
+  for (const comment of comments) {
+    if (comment.continuationOf && replaced.has(comment.continuationOf)) {
+      replaced.add(comment.uri);
+      continue;
+    }
+
+    if (comment.uri !== uri) {
+      result.push(
+        comment.replies.length > 0
+          ? { ...comment, replies: mergeLoadedReplies(comment.replies, uri, loaded, options) }
+          : comment,
+      );
+      continue;
+    }
+
+    const replies = shiftDepth(loaded, comment.depth + 1);
+    const isContinuation = (reply: FlattenedComment) =>
+      flattenSameAuthorThreads && reply.author.did === comment.author.did;
+
+    result.push({
+      ...comment,
+      replies: replies.filter((reply) => !isContinuation(reply)),
+      unloadedReplyCount: undefined,
+    });
+    for (const reply of replies.filter(isContinuation)) {
+      result.push({
+        ...reply,
+        depth: comment.depth,
+        parentAuthorDid: comment.author.did,
+        continuationOf: reply.continuationOf ?? comment.uri,
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Whether `uri` is a reply somewhere below `comment`
+ */
+export function hasReply(comment: FlattenedComment, uri: string): boolean {
+  return comment.replies.some((reply) => reply.uri === uri || hasReply(reply, uri));
+}
+
+export type TreeKeyAction =
+  | "next"
+  | "previous"
+  | "first"
+  | "last"
+  | "expand"
+  | "collapse"
+  | "parent"
+  | "child";
+
+/**
+ * Action of a key pressed in a comment of the thread tree. Arrows, Home and End follow the ARIA
+ * tree pattern when the comment itself is focused; j/k move between comments from anywhere inside
+ * a comment, except while typing.
+ */
+export function getTreeKeyAction(
+  key: string,
+  state: { onItem: boolean; typing: boolean; expandable: boolean; expanded: boolean },
+): TreeKeyAction | null {
+  if (!state.typing && (key === "j" || key === "k")) return key === "j" ? "next" : "previous";
+  if (!state.onItem) return null;
+
+  switch (key) {
+    case "ArrowDown":
+      return "next";
+    case "ArrowUp":
+      return "previous";
+    case "Home":
+      return "first";
+    case "End":
+      return "last";
+    case "ArrowRight":
+      if (!state.expandable) return null;
+      return state.expanded ? "child" : "expand";
+    case "ArrowLeft":
+      return state.expandable && state.expanded ? "collapse" : "parent";
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Items of a list rendered for a viewport
+ */
+export type RenderWindow = {
+  /** Index of the first rendered item */
+  start: number;
+  /** Index after the last rendered item */
+  end: number;
+  /** Height of the items before `start` */
+  before: number;
+  /** Height of the items from `end` on */
+  after: number;
+};
+
+/**
+ * Find the items overlapping the span from `top` to `bottom`, both relative to the top of the list.
+ * `sizes` are the item heights, measured or estimated.
+ */
+export function getRenderWindow(sizes: number[], top: number, bottom: number): RenderWindow {
+  const total = sizes.reduce((sum, size) => sum + size, 0);
+  let start = -1;
+  let end = sizes.length;
+  let before = 0;
+  let offset = 0;
+
+  for (let index = 0; index < sizes.length; index += 1) {
+    if (offset >= bottom) {
+      end = index;
+      break;
+    }
+    const size = sizes[index] ?? 0;
+    if (start < 0 && offset + size > top) {
+      start = index;
+      before = offset;
+    }
+    offset += size;
+  }
+
+  // Nothing overlaps: the list is entirely above or below the span
+  if (start < 0) {
+    start = end;
+    before = offset;
+  }
+  return { start, end, before, after: total - offset };
+}
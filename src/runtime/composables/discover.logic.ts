@@ -0,0 +1,75 @@
+import type { PostView } from "../types";
+
+const TRACKING_PARAM = /^(utm_|fbclid$|gclid$|ref$)/;
+
+/**
+ * Normalize a page URL for comparison: lowercase host, no hash, no tracking parameters,
+ * no trailing slash. Returns the input unchanged when it isn't a valid URL.
+ */
+export function normalizePageUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url.trim();
+  }
+
+  parsed.hash = "";
+  // Collected first, deleting while iterating skips entries
+  const tracking = [...parsed.searchParams.keys()].filter((key) => TRACKING_PARAM.test(key));
+  for (const key of tracking) parsed.searchParams.delete(key);
+  parsed.searchParams.sort();
+
+  const path = parsed.pathname.replace(/\/+$/, "");
+  return `${parsed.protocol}//${parsed.host.toLowerCase()}${path}${parsed.search}`;
+}
+
+type LinkRecord = {
+  reply?: unknown;
+  createdAt?: string;
+  embed?: { external?: { uri?: string }; media?: { external?: { uri?: string } } };
+  facets?: Array<{ features?: Array<{ uri?: unknown }> }>;
+};
+
+/**
+ * URLs a post links to: its link card and rich text links
+ */
+export function collectPostLinks(post: PostView): string[] {
+  const record = post.record as LinkRecord;
+  const links = [record.embed?.external?.uri, record.embed?.media?.external?.uri];
+  for (const facet of record.facets ?? []) {
+    for (const feature of facet.features ?? []) {
+      if (typeof feature.uri === "string") links.push(feature.uri);
+    }
+  }
+  return links.filter((link): link is string => !!link);
+}
+
+/**
+ * Choose the post for a page among search results, independent of their order:
+ * posts that really link to the page first, then top-level posts over replies,
+ * then the earliest post (the original announcement), then the URI as a tie-breaker.
+ */
+export function pickDiscoveredPost(posts: PostView[], pageUrl: string): PostView | null {
+  const target = normalizePageUrl(pageUrl);
+
+  const rank = (post: PostView) => {
+    const record = post.record as LinkRecord;
+    return {
+      links: collectPostLinks(post).some((link) => normalizePageUrl(link) === target),
+      root: !record.reply,
+      time: Date.parse(record.createdAt ?? post.indexedAt) || Number.POSITIVE_INFINITY,
+    };
+  };
+
+  const ranked = posts.map((post) => ({ post, ...rank(post) }));
+  ranked.sort(
+    (a, b) =>
+      Number(b.links) - Number(a.links) ||
+      Number(b.root) - Number(a.root) ||
+      a.time - b.time ||
+      (a.post.uri < b.post.uri ? -1 : a.post.uri > b.post.uri ? 1 : 0),
+  );
+
+  return ranked[0]?.post ?? null;
+}
@@ -0,0 +1,75 @@
+import { DEFAULT_API_SERVICE, getAtpAgent } from "./atproto";
+import { dedupeRequest } from "./cache";
+import { normalizePageUrl, pickDiscoveredPost } from "./discover.logic";
+
+export type DiscoverBlueskyPostOptions = {
+  /**
+   * Only consider posts by this account (handle or DID), usually the site author
+   */
+  author?: string;
+  /**
+   * Bluesky API service URL (AppView)
+   * @default 'https://public.api.bsky.app'
+   */
+  apiService?: string;
+  signal?: AbortSignal;
+};
+
+// A post that links to the page can be published after the first lookup, so misses expire.
+// Found posts can be deleted or replaced, so they expire too, only later.
+const MISS_TTL = 5 * 60 * 1000;
+const HIT_TTL = 60 * 60 * 1000;
+
+// On the server, page URLs come from clients: the oldest lookups are dropped past this size
+const MAX_DISCOVERIES = 500;
+
+const discoveryCache = new Map<string, { uri: string | null; expires: number }>();
+
+function rememberDiscovery(cacheKey: string, uri: string | null) {
+  discoveryCache.delete(cacheKey);
+  discoveryCache.set(cacheKey, { uri, expires: Date.now() + (uri ? HIT_TTL : MISS_TTL) });
+  // Maps iterate in insertion order, so the first key is the oldest lookup
+  for (const key of discoveryCache.keys()) {
+    if (discoveryCache.size <= MAX_DISCOVERIES) break;
+    discoveryCache.delete(key);
+  }
+}
+
+async function searchPostForPage(
+  pageUrl: string,
+  author: string | undefined,
+  apiService: string,
+  signal: AbortSignal,
+): Promise<string | null> {
+  const agent = await getAtpAgent(apiService);
+  const { data } = await agent.app.bsky.feed.searchPosts(
+    { q: "*", url: pageUrl, author, sort: "latest", limit: 100 },
+    { signal },
+  );
+  return pickDiscoveredPost(data.posts, pageUrl)?.uri ?? null;
+}
+
+/**
+ * Find the Bluesky post that links to a page (e.g. its canonical URL) with `app.bsky.feed.searchPosts`.
+ * Resolves to the post's AT URI, or null when no post links to the page.
+ * Results are cached per page, author and AppView for an hour; misses are retried after a few minutes.
+ */
+export async function discoverBlueskyPost(
+  pageUrl: string,
+  options: DiscoverBlueskyPostOptions = {},
+): Promise<string | null> {
+  const url = normalizePageUrl(pageUrl);
+  const apiService = options.apiService ?? DEFAULT_API_SERVICE;
+  const cacheKey = `${apiService}|${options.author ?? ""}|${url}`;
+
+  const cached = discoveryCache.get(cacheKey);
+  if (cached && cached.expires > Date.now()) return cached.uri;
+
+  const uri = await dedupeRequest(
+    `discover:${cacheKey}`,
+    (signal) => searchPostForPage(url, options.author, apiService, signal),
+    options.signal,
+  );
+  rememberDiscovery(cacheKey, uri);
+  return uri;
+}
@@ -0,0 +1,113 @@
+import type {
+  AppBskyEmbedExternal,
+  AppBskyEmbedImages,
+  AppBskyEmbedRecord,
+  AppBskyEmbedVideo,
+} from "@atproto/api";
+import type { CommentEmbed, CommentEmbedMedia, EmbedRecord, PostRecord } from "../types";
+import { isSafeLink } from "./richText.logic";
+
+type TypedView = { $type?: string };
+
+function processMedia(view: TypedView | undefined): CommentEmbedMedia | undefined {
+  switch (view?.$type) {
+    case "app.bsky.embed.images#view": {
+      const { images } = view as AppBskyEmbedImages.View;
+      return {
+        type: "images",
+        images: images.map((image) => ({
+          thumb: image.thumb,
+          fullsize: image.fullsize,
+          alt: image.alt || "",
+          aspectRatio: image.aspectRatio,
+        })),
+      };
+    }
+    case "app.bsky.embed.external#view": {
+      const { external } = view as AppBskyEmbedExternal.View;
+      // Anyone can attach a card, so a `javascript:` uri must not reach the page
+      if (!isSafeLink(external.uri)) return undefined;
+      return {
+        type: "external",
+        external: {
+          uri: external.uri,
+          title: external.title,
+          description: external.description,
+          thumb: external.thumb,
+        },
+      };
+    }
+    case "app.bsky.embed.video#view": {
+      const video = view as AppBskyEmbedVideo.View;
+      return {
+        type: "video",
+        video: {
+          playlist: video.playlist,
+          thumbnail: video.thumbnail,
+          alt: video.alt,
+          aspectRatio: video.aspectRatio,
+        },
+      };
+    }
+    default:
+      return undefined;
+  }
+}
+
+function processRecord(record: AppBskyEmbedRecord.View["record"] | undefined): EmbedRecord {
+  const uri = (record as { uri?: string } | undefined)?.uri ?? "";
+
+  switch ((record as TypedView | undefined)?.$type) {
+    case "app.bsky.embed.record#viewRecord": {
+      const view = record as AppBskyEmbedRecord.ViewRecord;
+      const value = view.value as Partial<PostRecord>;
+      return {
+        type: "post",
+        uri: view.uri,
+        author: {
+          did: view.author.did,
+          handle: view.author.handle,
+          displayName: view.author.displayName,
+          avatar: view.author.avatar,
+        },
+        text: value?.text || "",
+        createdAt: value?.createdAt || view.indexedAt,
+      };
+    }
+    case "app.bsky.embed.record#viewBlocked":
+      return { type: "unavailable", uri, reason: "blocked" };
+    case "app.bsky.embed.record#viewNotFound":
+      return { type: "unavailable", uri, reason: "notFound" };
+    case "app.bsky.embed.record#viewDetached":
+      return { type: "unavailable", uri, reason: "detached" };
+    default:
+      // Feeds, lists, starter packs, labelers...
+      return { type: "unavailable", uri, reason: "unsupported" };
+  }
+}
+
+/**
+ * Convert a hydrated post embed view into a CommentEmbed.
+ * Returns undefined for missing or unknown embed types.
+ */
+export function processEmbed(embed: unknown): CommentEmbed | undefined {
+  const view = embed as TypedView | undefined;
+
+  switch (view?.$type) {
+    case "app.bsky.embed.record#view":
+      return { type: "record", record: processRecord((view as AppBskyEmbedRecord.View).record) };
+    case "app.bsky.embed.recordWithMedia#view": {
+      const { record, media } = view as {
+        record: AppBskyEmbedRecord.View;
+        media: TypedView;
+      };
+      const processedMedia = processMedia(media);
+      const processedRecord = processRecord(record?.record);
+      return processedMedia
+        ? { type: "recordWithMedia", record: processedRecord, media: processedMedia }
+        : { type: "record", record: processedRecord };
+    }
+    default:
+      return processMedia(view);
+  }
+}
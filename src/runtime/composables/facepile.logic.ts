@@ -0,0 +1,26 @@
+import type { BlueskyActor } from "../types";
+
+/**
+ * Names for a "Liked by @alice, @bob and 240 others" line: the first accounts by handle
+ * and the number of accounts left. `total` is the post's count, which includes accounts
+ * the AppView doesn't list (e.g. blocked ones), so it never drops below the loaded accounts.
+ */
+export function summarizeActors(
+  actors: BlueskyActor[],
+  total: number,
+  maxNames: number = 2,
+): { names: string[]; others: number } {
+  const named = actors.slice(0, Math.max(maxNames, 0));
+  return {
+    names: named.map((actor) => `@${actor.handle}`),
+    others: Math.max(total, actors.length) - named.length,
+  };
+}
+
+/**
+ * First letter of an account's handle (or name), shown when it has no avatar
+ */
+export function avatarInitial(author: { handle?: string; displayName?: string }): string {
+  const name = author.handle || author.displayName || "?";
+  return name.charAt(0).toUpperCase();
+}
@@ -0,0 +1,93 @@
+import type { BlueskyI18n, BlueskyMessages, PluralMessage } from "../types";
+import { BUILT_IN_MESSAGES, DEFAULT_LOCALE } from "../locales";
+
+const RELATIVE_TIME_UNITS: Array<[Intl.RelativeTimeFormatUnit, number]> = [
+  ["year", 365 * 24 * 60 * 60],
+  ["month", 30 * 24 * 60 * 60],
+  ["week", 7 * 24 * 60 * 60],
+  ["day", 24 * 60 * 60],
+  ["hour", 60 * 60],
+  ["minute", 60],
+];
+
+/**
+ * Canonicalize a locale tag, falling back to the default for invalid input
+ */
+export function normalizeLocale(locale: string | undefined): string {
+  if (!locale) return DEFAULT_LOCALE;
+  try {
+    return Intl.getCanonicalLocales(locale)[0] ?? DEFAULT_LOCALE;
+  } catch {
+    return DEFAULT_LOCALE;
+  }
+}
+
+/**
+ * Resolve the catalogue for a locale: English, then the language (`de`), then the full tag (`de-AT`),
+ * each built-in catalogue overridden by the matching custom messages.
+ */
+export function resolveMessages(
+  locale: string,
+  custom: Record<string, Partial<BlueskyMessages>> = {},
+): BlueskyMessages {
+  const language = locale.split("-")[0] as string;
+  const chain = [...new Set([DEFAULT_LOCALE, language, locale])];
+
+  return Object.assign(
+    {},
+    ...chain.flatMap((code) => [BUILT_IN_MESSAGES[code], custom[code]]),
+  ) as BlueskyMessages;
+}
+
+function interpolate(message: string, params: Record<string, string | number>): string {
+  return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match,
+  );
+}
+
+/**
+ * Create translation and `Intl` based formatting helpers for a locale
+ */
+export function createBlueskyI18n(
+  locale: string | undefined,
+  custom?: Record<string, Partial<BlueskyMessages>>,
+): BlueskyI18n {
+  const resolved = normalizeLocale(locale);
+  const messages = resolveMessages(resolved, custom);
+
+  const pluralRules = new Intl.PluralRules(resolved);
+  const compactNumber = new Intl.NumberFormat(resolved, {
+    notation: "compact",
+    maximumFractionDigits: 1,
+  });
+  const relativeTime = new Intl.RelativeTimeFormat(resolved, {
+    style: "narrow",
+    numeric: "auto",
+  });
+  const list = new Intl.ListFormat(resolved, { type: "conjunction" });
+
+  const formatCount = (count: number) => compactNumber.format(count);
+
+  return {
+    locale: resolved,
+    t(key, params = {}) {
+      const message: string | PluralMessage = messages[key];
+      if (typeof message === "string") return interpolate(message, params);
+
+      // Plural forms are picked by `count`, which is rendered as a compact number
+      const count = Number(params.count ?? 0);
+      const form = message[pluralRules.select(count)] ?? message.other;
+      return interpolate(form, { ...params, count: formatCount(count) });
+    },
+    formatCount,
+    formatRelativeTime(date, now = new Date()) {
+      const diffSecs = Math.floor((now.getTime() - new Date(date).getTime()) / 1000);
+      for (const [unit, seconds] of RELATIVE_TIME_UNITS) {
+        const value = Math.floor(diffSecs / seconds);
+        if (value > 0) return relativeTime.format(-value, unit);
+      }
+      return relativeTime.format(0, "second");
+    },
+    formatList: (items) => list.format(items),
+  };
+}
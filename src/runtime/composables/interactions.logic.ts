@@ -0,0 +1,128 @@
+import type { BlueskyViewer, FlattenedComment } from "../types";
+import { parseRichText } from "./richText.logic";
+
+/**
+ * Maximum post length on Bluesky, in graphemes
+ */
+export const MAX_POST_GRAPHEMES = 300;
+
+/**
+ * Number of user-perceived characters, as counted by Bluesky for the post length limit
+ */
+export function countGraphemes(text: string): number {
+  let count = 0;
+  for (const _ of new Intl.Segmenter().segment(text)) count += 1;
+  return count;
+}
+
+/**
+ * Replace the comment with the given URI anywhere in the tree.
+ * Returns a new tree; the input is not mutated.
+ */
+export function updateComment(
+  comments: FlattenedComment[],
+  uri: string,
+  update: (comment: FlattenedComment) => FlattenedComment,
+): FlattenedComment[] {
+  return comments.map((comment) => {
+    if (comment.uri === uri) return update(comment);
+    return comment.replies.length > 0
+      ? { ...comment, replies: updateComment(comment.replies, uri, update) }
+      : comment;
+  });
+}
+
+/**
+ * Like state of a comment after liking (`likeUri` set) or unliking it
+ */
+export function setViewerLike(
+  comment: FlattenedComment,
+  likeUri: string | undefined,
+): FlattenedComment {
+  const delta = Number(!!likeUri) - Number(!!comment.viewerLike);
+  return {
+    ...comment,
+    viewerLike: likeUri,
+    likeCount: Math.max(comment.likeCount + delta, 0),
+  };
+}
+
+/**
+ * Drop the reader's like state from every comment (after signing out)
+ */
+export function clearViewerState(comments: FlattenedComment[]): FlattenedComment[] {
+  return comments.map((comment) => ({
+    ...comment,
+    viewerLike: undefined,
+    replies: clearViewerState(comment.replies),
+  }));
+}
+
+/**
+ * Build the optimistic comment for a reply that is being posted
+ */
+export function createLocalReply(
+  text: string,
+  author: BlueskyViewer,
+  parent?: FlattenedComment,
+  now: Date = new Date(),
+): FlattenedComment {
+  const id = `local-${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`;
+  return {
+    id,
+    uri: `at://${author.did}/app.bsky.feed.post/${id}`,
+    author: { ...author },
+    text,
+    segments: parseRichText(text),
+    createdAt: now.toISOString(),
+    likeCount: 0,
+    replyCount: 0,
+    repostCount: 0,
+    depth: parent ? parent.depth + 1 : 0,
+    replies: [],
+    parentAuthorDid: parent?.author.did,
+    labels: [],
+    localState: "pending",
+  };
+}
+
+/**
+ * Insert a reply as the first reply of `parentUri`, or as a top-level comment.
+ * The parent's reply count is increased.
+ */
+export function insertReply(
+  comments: FlattenedComment[],
+  reply: FlattenedComment,
+  parentUri?: string,
+): FlattenedComment[] {
+  if (!parentUri) return [reply, ...comments];
+  return updateComment(comments, parentUri, (parent) => ({
+    ...parent,
+    replyCount: parent.replyCount + 1,
+    replies: [reply, ...parent.replies],
+  }));
+}
+
+/**
+ * Remove a comment (and its replies) from the tree, decreasing its parent's reply count
+ */
+export function removeComment(comments: FlattenedComment[], uri: string): FlattenedComment[] {
+  const result: FlattenedComment[] = [];
+  for (const comment of comments) {
+    if (comment.uri === uri) continue;
+    if (comment.replies.some((reply) => reply.uri === uri)) {
+      result.push({
+        ...comment,
+        replyCount: Math.max(comment.replyCount - 1, 0),
+        replies: comment.replies.filter((reply) => reply.uri !== uri),
+      });
+      continue;
+    }
+    result.push(
+      comment.replies.length > 0
+        ? { ...comment, replies: removeComment(comment.replies, uri) }
+        : comment,
+    );
+  }
+  return result;
+}
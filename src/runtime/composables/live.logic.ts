@@ -0,0 +1,122 @@
+import type { FlattenedComment, LiveMode, LiveOptions } from "../types";
+
+export const DEFAULT_JETSTREAM_URL = "wss://jetstream2.us-east.bsky.network/subscribe";
+
+const DEFAULT_LIVE_OPTIONS: Required<LiveOptions> = {
+  mode: "poll",
+  interval: 30_000,
+  maxInterval: 300_000,
+};
+
+/**
+ * Normalize the `live` option, null when live updates are off
+ */
+export function resolveLiveOptions(
+  live: boolean | LiveMode | LiveOptions | undefined,
+): Required<LiveOptions> | null {
+  if (!live) return null;
+  if (live === true) return { ...DEFAULT_LIVE_OPTIONS };
+  if (typeof live === "string") return { ...DEFAULT_LIVE_OPTIONS, mode: live };
+  return {
+    mode: live.mode ?? DEFAULT_LIVE_OPTIONS.mode,
+    interval: live.interval ?? DEFAULT_LIVE_OPTIONS.interval,
+    maxInterval: Math.max(
+      live.maxInterval ?? DEFAULT_LIVE_OPTIONS.maxInterval,
+      live.interval ?? DEFAULT_LIVE_OPTIONS.interval,
+    ),
+  };
+}
+
+/**
+ * URIs of all comments in a tree
+ */
+export function collectCommentUris(
+  comments: FlattenedComment[],
+  uris: Set<string> = new Set(),
+): Set<string> {
+  for (const comment of comments) {
+    uris.add(comment.uri);
+    collectCommentUris(comment.replies, uris);
+  }
+  return uris;
+}
+
+/**
+ * Number of comments in `incoming` that aren't in `current`
+ */
+export function countNewComments(
+  current: FlattenedComment[],
+  incoming: FlattenedComment[],
+): number {
+  const known = collectCommentUris(current);
+  let count = 0;
+  for (const uri of collectCommentUris(incoming)) {
+    if (!known.has(uri)) count += 1;
+  }
+  return count;
+}
+
+/**
+ * Apply a refetched tree over the current one, matching comments by URI.
+ * Counts and new replies come from `incoming`; branches loaded on demand (below the fetched depth)
+ * are kept from `current`.
+ */
+export function mergeThreadUpdate(
+  current: FlattenedComment[],
+  incoming: FlattenedComment[],
+): FlattenedComment[] {
+  const byUri = new Map<string, FlattenedComment>();
+  const index = (comments: FlattenedComment[]) => {
+    for (const comment of comments) {
+      byUri.set(comment.uri, comment);
+      index(comment.replies);
+    }
+  };
+  index(current);
+
+  const merge = (comments: FlattenedComment[]): FlattenedComment[] =>
+    comments.map((comment) => {
+      const existing = byUri.get(comment.uri);
+      if (comment.unloadedReplyCount && existing && !existing.unloadedReplyCount) {
+        return { ...comment, replies: existing.replies, unloadedReplyCount: undefined };
+      }
+      return { ...comment, replies: merge(comment.replies) };
+    });
+
+  return merge(incoming);
+}
+
+/**
+ * Next polling delay: back off while nothing changes or the page is hidden,
+ * reset to the base interval when new comments arrive.
+ */
+export function nextPollInterval(
+  current: number,
+  options: { base: number; max: number; foundNew: boolean; hidden: boolean },
+): number {
+  if (options.foundNew && !options.hidden) return options.base;
+  return Math.min(current * 2, options.max);
+}
+
+/**
+ * Root post URI of the thread a Jetstream message replies in, null unless it is a new reply
+ */
+export function getJetstreamReplyRoot(message: unknown): string | null {
+  if (typeof message !== "object" || message === null) return null;
+  const { kind, commit } = message as {
+    kind?: string;
+    commit?: {
+      operation?: string;
+      collection?: string;
+      record?: { reply?: { root?: { uri?: string } } };
+    };
+  };
+  if (
+    kind !== "commit" ||
+    commit?.operation !== "create" ||
+    commit.collection !== "app.bsky.feed.post"
+  ) {
+    return null;
+  }
+  return commit.record?.reply?.root?.uri ?? null;
+}
@@ -0,0 +1,144 @@
+import { getJetstreamReplyRoot, nextPollInterval } from "./live.logic";
+
+const MAX_RECONNECT_DELAY = 60_000;
+
+/**
+ * Run `check` on an interval until stopped. `check` resolves to true when it found new comments.
+ * The delay doubles (up to `maxInterval`) while nothing changes, after errors and while the page
+ * is hidden; hidden pages are not polled. Becoming visible again polls right away.
+ * Returns a function that stops polling.
+ */
+export function startPolling(options: {
+  interval: number;
+  maxInterval: number;
+  check: () => Promise<boolean>;
+}): () => void {
+  const { interval, maxInterval, check } = options;
+  const hasDocument = typeof document !== "undefined";
+  let delay = interval;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let checking = false;
+  let stopped = false;
+
+  const schedule = () => {
+    clearTimeout(timer);
+    if (!stopped) timer = setTimeout(tick, delay);
+  };
+
+  async function tick() {
+    if (stopped || checking) return;
+    const hidden = hasDocument && document.visibilityState === "hidden";
+    let foundNew = false;
+    if (!hidden) {
+      checking = true;
+      try {
+        foundNew = await check();
+      } catch {
+        // Transient failures back off like an unchanged thread
+      } finally {
+        checking = false;
+      }
+    }
+    if (stopped) return;
+    delay = nextPollInterval(delay, { base: interval, max: maxInterval, foundNew, hidden });
+    schedule();
+  }
+
+  const onVisibilityChange = () => {
+    if (document.visibilityState !== "visible") return;
+    delay = interval;
+    // A check in flight schedules the next poll itself
+    if (checking) return;
+    clearTimeout(timer);
+    void tick();
+  };
+
+  if (hasDocument) document.addEventListener("visibilitychange", onVisibilityChange);
+  schedule();
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+    if (hasDocument) document.removeEventListener("visibilitychange", onVisibilityChange);
+  };
+}
+
+/**
+ * Subscribe to Jetstream post commits and call `onReply` with the root post of each new reply.
+ * Jetstream can only filter by collection, so this receives every post on the network: it is
+ * meant for the server relay (see `watchReplies`), never for browsers.
+ * Reconnects with backoff, resuming from the last received event.
+ * Returns a function that closes the subscription.
+ */
+export function subscribeJetstream(options: {
+  url: string;
+  onReply: (rootUri: string) => void;
+  /** WebSocket implementation, defaults to the global one */
+  WebSocket?: typeof globalThis.WebSocket;
+}): () => void {
+  const { onReply } = options;
+  const WebSocketImpl = options.WebSocket ?? globalThis.WebSocket;
+  let socket: WebSocket | undefined;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let reconnectDelay = 1000;
+  let cursor: number | undefined;
+  let stopped = false;
+
+  function connect() {
+    const url = new URL(options.url);
+    url.searchParams.set("wantedCollections", "app.bsky.feed.post");
+    if (cursor !== undefined) url.searchParams.set("cursor", String(cursor));
+
+    socket = new WebSocketImpl(url.toString());
+    socket.addEventListener("open", () => {
+      reconnectDelay = 1000;
+    });
+    socket.addEventListener("message", (event: MessageEvent) => {
+      let message: unknown;
+      try {
+        message = JSON.parse(String(event.data));
+      } catch {
+        return;
+      }
+      const time = (message as { time_us?: unknown } | null)?.time_us;
+      if (typeof time === "number") cursor = time;
+      const rootUri = getJetstreamReplyRoot(message);
+      if (rootUri) onReply(rootUri);
+    });
+    socket.addEventListener("close", () => {
+      if (stopped) return;
+      reconnectTimer = setTimeout(connect, reconnectDelay);
+      reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY);
+    });
+  }
+
+  connect();
+
+  return () => {
+    stopped = true;
+    clearTimeout(reconnectTimer);
+    socket?.close();
+  };
+}
+
+/**
+ * Listen to the server's live route, which relays the Jetstream replies to the watched posts as
+ * `reply` events. `EventSource` reconnects on its own after network errors; `onUnavailable` is
+ * called when the server refuses the stream (e.g. a runtime without WebSocket support).
+ * Returns a function that closes the stream.
+ */
+export function subscribeLiveRoute(options: {
+  url: string;
+  onReply: () => void;
+  onUnavailable: () => void;
+  /** EventSource implementation, defaults to the global one */
+  EventSource?: typeof globalThis.EventSource;
+}): () => void {
+  const EventSourceImpl = options.EventSource ?? globalThis.EventSource;
+  const source = new EventSourceImpl(options.url);
+  source.addEventListener("reply", () => options.onReply());
+  source.addEventListener("error", () => {
+    if (source.readyState === EventSourceImpl.CLOSED) options.onUnavailable();
+  });
+  return () => source.close();
+}
@@ -0,0 +1,167 @@
+import type {
+  FlattenedComment,
+  HiddenRepliesMode,
+  ModerationAction,
+  ModerationOptions,
+} from "../types";
+
+/**
+ * Default behaviour for common Bluesky moderation labels.
+ * Labels without an entry are shown.
+ */
+export const DEFAULT_LABEL_ACTIONS: Readonly<Record<string, ModerationAction>> = {
+  "!hide": "hide",
+  "!takedown": "hide",
+  "!warn": "blur",
+  porn: "hide",
+  gore: "hide",
+  spam: "hide",
+  sexual: "blur",
+  nudity: "blur",
+  "graphic-media": "blur",
+};
+
+type Label = { val: string; neg?: boolean };
+
+/**
+ * Collect non-negated label values from a post and its author.
+ */
+export function collectLabels(post: { labels?: Label[]; author: { labels?: Label[] } }): string[] {
+  const values = new Set<string>();
+  for (const label of [...(post.labels || []), ...(post.author.labels || [])]) {
+    if (!label.neg && label.val) values.add(label.val);
+  }
+  return [...values];
+}
+
+/**
+ * Check whether text contains a muted word or phrase (case-insensitive).
+ * Single words match whole words only (a leading `#` matches hashtags too).
+ */
+export function containsMutedWord(text: string, mutedWords: string[]): boolean {
+  if (!text || mutedWords.length === 0) return false;
+
+  const lowerText = text.toLowerCase();
+  const words = new Set(
+    (lowerText.match(/[\p{L}\p{N}_'-]+/gu) || []).map((word) => word.replace(/^'+|'+$/g, "")),
+  );
+
+  return mutedWords.some((muted) => {
+    const value = muted.trim().toLowerCase().replace(/^#/, "");
+    if (!value) return false;
+    return /\s/.test(value) ? lowerText.includes(value) : words.has(value);
+  });
+}
+
+type ModerationDecision = {
+  action: ModerationAction;
+  /** Labels that caused the action */
+  labels: string[];
+  /** True when the thread author hid the reply */
+  hiddenByAuthor?: boolean;
+};
+
+/**
+ * Replies hidden by the thread author through its threadgate
+ */
+export type ThreadgateModeration = {
+  hiddenReplies: string[];
+  mode: HiddenRepliesMode;
+};
+
+/**
+ * Decide how a single comment should be displayed.
+ * The strictest action wins: hide > blur > show.
+ */
+export function moderateComment(
+  comment: FlattenedComment,
+  options: ModerationOptions = {},
+  threadgate?: ThreadgateModeration,
+): ModerationDecision {
+  if (threadgate && threadgate.mode !== "show" && threadgate.hiddenReplies.includes(comment.uri)) {
+    return {
+      action: threadgate.mode === "hide" ? "hide" : "blur",
+      labels: [],
+      hiddenByAuthor: true,
+    };
+  }
+  if (options.mutedDids?.includes(comment.author.did)) {
+    return { action: "hide", labels: [] };
+  }
+  if (containsMutedWord(comment.text, options.mutedWords || [])) {
+    return { action: "hide", labels: [] };
+  }
+
+  const labelActions = { ...DEFAULT_LABEL_ACTIONS, ...options.labelActions };
+  const blurLabels: string[] = [];
+
+  for (const label of comment.labels || []) {
+    const action = labelActions[label] ?? "show";
+    if (action === "hide") return { action: "hide", labels: [label] };
+    if (action === "blur") blurLabels.push(label);
+  }
+
+  return blurLabels.length > 0
+    ? { action: "blur", labels: blurLabels }
+    : { action: "show", labels: [] };
+}
+
+/**
+ * Extend site-wide moderation (module config) with the options of one component or call
+ */
+export function mergeModerationOptions(
+  base: ModerationOptions | undefined,
+  extra: ModerationOptions,
+): ModerationOptions {
+  return {
+    labelActions: { ...base?.labelActions, ...extra.labelActions },
+    mutedDids: [...(base?.mutedDids || []), ...(extra.mutedDids || [])],
+    mutedWords: [...(base?.mutedWords || []), ...(extra.mutedWords || [])],
+  };
+}
+
+function countWithReplies(comment: FlattenedComment): number {
+  return 1 + comment.replies.reduce((sum, reply) => sum + countWithReplies(reply), 0);
+}
+
+/**
+ * Apply moderation (and the thread author's hidden replies) to a comment tree.
+ * Hidden comments are removed together with their replies and same-author continuations,
+ * blurred comments get a `moderation` marker. Returns the number of removed comments.
+ */
+export function applyModeration(
+  comments: FlattenedComment[],
+  options: ModerationOptions = {},
+  threadgate?: ThreadgateModeration,
+): { comments: FlattenedComment[]; hiddenCount: number } {
+  let hiddenCount = 0;
+  const hiddenUris = new Set<string>();
+  const result: FlattenedComment[] = [];
+
+  for (const comment of comments) {
+    const parentHidden = comment.continuationOf ? hiddenUris.has(comment.continuationOf) : false;
+    const decision = parentHidden
+      ? { action: "hide" as const, labels: [] }
+      : moderateComment(comment, options, threadgate);
+
+    if (decision.action === "hide") {
+      hiddenUris.add(comment.uri);
+      hiddenCount += countWithReplies(comment);
+      continue;
+    }
+
+    const replies = applyModeration(comment.replies, options, threadgate);
+    hiddenCount += replies.hiddenCount;
+
+    result.push({
+      ...comment,
+      replies: replies.comments,
+      moderation:
+        decision.action === "blur"
+          ? { action: "blur", labels: decision.labels, hiddenByAuthor: decision.hiddenByAuthor }
+          : undefined,
+    });
+  }
+
+  return { comments: result, hiddenCount };
+}
@@ -0,0 +1,88 @@
+import { computed, ref, shallowRef, watch, type ComputedRef, type Ref, type ShallowRef } from "vue";
+
+export type Page<T> = {
+  items: T[];
+  /** Cursor of the next page, undefined on the last page */
+  cursor?: string;
+};
+
+export type PagedList<T> = {
+  items: ShallowRef<T[]>;
+  loading: Ref<boolean>;
+  error: Ref<string | null>;
+  loaded: Ref<boolean>;
+  hasMore: ComputedRef<boolean>;
+  loadMore: () => Promise<void>;
+  refresh: () => Promise<void>;
+};
+
+/**
+ * Cursor-paginated list fetched on demand (`loadMore`), cleared when `source` changes.
+ * Items already listed are skipped by `itemKey`, as cursors can shift while new items arrive.
+ */
+export function usePagedList<T>(options: {
+  /** Identity of the list (e.g. post and AppView); empty while there is nothing to fetch */
+  source: () => string;
+  fetchPage: (cursor: string | undefined, signal: AbortSignal) => Promise<Page<T>>;
+  itemKey: (item: T) => string;
+  fallbackError: string;
+}): PagedList<T> {
+  const items = shallowRef<T[]>([]);
+  const cursor = ref<string | undefined>();
+  const loaded = ref(false);
+  const loading = ref(false);
+  const error = ref<string | null>(null);
+
+  let controller: AbortController | undefined;
+
+  function reset() {
+    controller?.abort();
+    controller = undefined;
+    items.value = [];
+    cursor.value = undefined;
+    loaded.value = false;
+    loading.value = false;
+    error.value = null;
+  }
+
+  watch(options.source, reset);
+
+  async function loadMore(): Promise<void> {
+    if (!options.source() || loading.value || (loaded.value && !cursor.value)) return;
+
+    const current = new AbortController();
+    controller = current;
+    loading.value = true;
+    error.value = null;
+    try {
+      const page = await options.fetchPage(cursor.value, current.signal);
+      if (controller !== current) return;
+      const seen = new Set(items.value.map(options.itemKey));
+      items.value = [
+        ...items.value,
+        ...page.items.filter((item) => !seen.has(options.itemKey(item))),
+      ];
+      cursor.value = page.cursor;
+      loaded.value = true;
+    } catch (e) {
+      if (controller !== current) return;
+      const data = (e as { data?: { message?: string } }).data;
+      error.value = data?.message || (e instanceof Error ? e.message : options.fallbackError);
+    } finally {
+      if (controller === current) loading.value = false;
+    }
+  }
+
+  return {
+    items,
+    loading,
+    error,
+    loaded,
+    hasMore: computed(() => !loaded.value || !!cursor.value),
+    loadMore,
+    refresh: () => {
+      reset();
+      return loadMore();
+    },
+  };
+}
@@ -0,0 +1,29 @@
+import type { AppBskyFeedDefs } from "@atproto/api";
+import type { CommentEmbed, FlattenedComment } from "../types";
+import { postToComment } from "./blueskyComments.logic";
+
+/**
+ * Drop the embed of the quoted post itself (the reader is looking at it),
+ * keeping images, videos or link cards attached next to the quote
+ */
+function withoutQuotedPost(
+  embed: CommentEmbed | undefined,
+  quotedUri: string,
+): CommentEmbed | undefined {
+  if (embed?.type === "record" && embed.record.uri === quotedUri) return undefined;
+  if (embed?.type === "recordWithMedia" && embed.record.uri === quotedUri) return embed.media;
+  return embed;
+}
+
+/**
+ * Convert quote posts of `quotedUri` into top-level comments
+ */
+export function processQuotes(
+  posts: AppBskyFeedDefs.PostView[],
+  quotedUri: string,
+): FlattenedComment[] {
+  return posts.map((post) => {
+    const comment = postToComment(post);
+    return { ...comment, embed: withoutQuotedPost(comment.embed, quotedUri) };
+  });
+}
@@ -0,0 +1,131 @@
+import type { RichTextSegment } from "../types";
+
+type FacetFeature = {
+  $type?: string;
+  uri?: string;
+  did?: string;
+  tag?: string;
+};
+
+type Facet = {
+  index: { byteStart: number; byteEnd: number };
+  features: FacetFeature[];
+};
+
+const SAFE_LINK_PROTOCOLS = ["http:", "https:"] as const;
+
+/**
+ * Whether a link from a post can be rendered as an `href` (http or https only)
+ */
+export function isSafeLink(uri: string): boolean {
+  try {
+    const { protocol } = new URL(uri);
+    return SAFE_LINK_PROTOCOLS.some((p) => p === protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Convert a facet into a segment, or null when it has no supported feature.
+ */
+function facetToSegment(text: string, facet: Facet): RichTextSegment | null {
+  for (const feature of facet.features || []) {
+    switch (feature.$type) {
+      case "app.bsky.richtext.facet#link":
+        if (feature.uri && isSafeLink(feature.uri)) {
+          return { type: "link", text, uri: feature.uri };
+        }
+        break;
+      case "app.bsky.richtext.facet#mention":
+        if (feature.did) {
+          return { type: "mention", text, did: feature.did };
+        }
+        break;
+      case "app.bsky.richtext.facet#tag":
+        if (feature.tag) {
+          return { type: "tag", text, tag: feature.tag };
+        }
+        break;
+    }
+  }
+  return null;
+}
+
+/**
+ * Split post text into rich text segments using the record's facets.
+ * Facet indexes are UTF-8 byte offsets, so slicing happens on the encoded text.
+ * Invalid, overlapping or unsupported facets are rendered as plain text.
+ */
+export function parseRichText(text: string, facets?: unknown[]): RichTextSegment[] {
+  if (!text) return [];
+
+  const validFacets = ((facets || []) as Facet[])
+    .filter(
+      (f) =>
+        f?.index &&
+        Number.isInteger(f.index.byteStart) &&
+        Number.isInteger(f.index.byteEnd) &&
+        f.index.byteStart >= 0 &&
+        f.index.byteEnd > f.index.byteStart,
+    )
+    .sort((a, b) => a.index.byteStart - b.index.byteStart);
+
+  if (validFacets.length === 0) {
+    return [{ type: "text", text }];
+  }
+
+  const bytes = new TextEncoder().encode(text);
+  const decoder = new TextDecoder();
+  const decode = (start: number, end: number) => decoder.decode(bytes.subarray(start, end));
+
+  const segments: RichTextSegment[] = [];
+  const pushText = (value: string) => {
+    if (!value) return;
+    const last = segments[segments.length - 1];
+    if (last?.type === "text") {
+      last.text += value;
+    } else {
+      segments.push({ type: "text", text: value });
+    }
+  };
+
+  let cursor = 0;
+  for (const facet of validFacets) {
+    const { byteStart, byteEnd } = facet.index;
+    // Skip overlapping or out-of-range facets
+    if (byteStart < cursor || byteEnd > bytes.length) continue;
+
+    pushText(decode(cursor, byteStart));
+
+    const facetText = decode(byteStart, byteEnd);
+    const segment = facetToSegment(facetText, facet);
+    if (segment) {
+      segments.push(segment);
+    } else {
+      pushText(facetText);
+    }
+
+    cursor = byteEnd;
+  }
+
+  pushText(decode(cursor, bytes.length));
+
+  return segments;
+}
+
+/**
+ * Target URL for a rich text segment (empty for plain text)
+ */
+export function segmentHref(segment: RichTextSegment): string {
+  switch (segment.type) {
+    case "link":
+      return segment.uri;
+    case "mention":
+      return `https://bsky.app/profile/${segment.did}`;
+    case "tag":
+      return `https://bsky.app/hashtag/${encodeURIComponent(segment.tag)}`;
+    default:
+      return "";
+  }
+}
@@ -0,0 +1,171 @@
+export const DEFAULT_SNAPSHOT_ROUTE = "/_bluesky/snapshots";
+
+/**
+ * What a snapshot contains: the posts (or the page whose post is discovered) and the fetch options
+ * that change the processed thread
+ */
+export type SnapshotDescriptor = {
+  /** Post URLs or AT URIs */
+  posts?: string[];
+  /** Page URL (normalized) and author to discover the post from */
+  discover?: { url: string; author?: string };
+  flatten: boolean;
+  depth?: number;
+};
+
+// SHA-256 round constants
+const K = Uint32Array.from([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const rotr = (value: number, bits: number) => (value >>> bits) | (value << (32 - bits));
+
+type Words = [number, number, number, number, number, number, number, number];
+
+/**
+ * Hex SHA-256 of a string. Synchronous (unlike `crypto.subtle`) so the snapshot path can be
+ * computed during render, in the browser and on the server alike.
+ */
+function sha256Hex(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  // Message, a 1 bit, zeros and the 64-bit length in bits, in 64-byte blocks
+  const padded = new Uint8Array(Math.ceil((bytes.length + 9) / 64) * 64);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(bytes.length / 0x20000000));
+  view.setUint32(padded.length - 4, bytes.length * 8);
+
+  let hash: Words = [
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ];
+  const w = new Uint32Array(64);
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const w15 = w[i - 15]!;
+      const w2 = w[i - 2]!;
+      const s0 = rotr(w15, 7) ^ rotr(w15, 18) ^ (w15 >>> 3);
+      const s1 = rotr(w2, 17) ^ rotr(w2, 19) ^ (w2 >>> 10);
+      // Uint32Array stores the sum modulo 2^32
+      w[i] = w[i - 16]! + s0 + w[i - 7]! + s1;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i++) {
+      const t1 =
+        h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + K[i]! + w[i]!;
+      const t2 = (rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c));
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) >>> 0;
+    }
+    const round = [a, b, c, d, e, f, g, h];
+    hash = hash.map((value, i) => (value + round[i]!) >>> 0) as Words;
+  }
+
+  return hash.map((value) => value.toString(16).padStart(8, "0")).join("");
+}
+
+function toBase64Url(text: string): string {
+  const binary = Array.from(new TextEncoder().encode(text), (byte) =>
+    String.fromCharCode(byte),
+  ).join("");
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+}
+
+/**
+ * JSON of a descriptor with a fixed key order, so the same descriptor always maps to the same file
+ */
+function canonicalSnapshotKey(descriptor: SnapshotDescriptor): string {
+  return JSON.stringify({
+    posts: descriptor.posts,
+    discover: descriptor.discover && {
+      url: descriptor.discover.url,
+      author: descriptor.discover.author,
+    },
+    flatten: descriptor.flatten,
+    depth: descriptor.depth,
+  });
+}
+
+/**
+ * Descriptor of a snapshot as URL-safe base64 of its JSON, passed to the build so it can fetch
+ * the thread from the prerendered route alone
+ */
+export function encodeSnapshotKey(descriptor: SnapshotDescriptor): string {
+  return toBase64Url(canonicalSnapshotKey(descriptor));
+}
+
+/**
+ * File name of a snapshot: the SHA-256 of its descriptor, so the browser can find it without
+ * an index file and the name stays short however many posts are aggregated
+ */
+export function snapshotFileName(descriptor: SnapshotDescriptor): string {
+  return `${sha256Hex(canonicalSnapshotKey(descriptor))}.json`;
+}
+
+/**
+ * Read an encoded descriptor back, null when it isn't a valid descriptor
+ */
+export function decodeSnapshotKey(key: string): SnapshotDescriptor | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(fromBase64Url(key));
+  } catch {
+    return null;
+  }
+  if (!value || typeof value !== "object") return null;
+
+  const { posts, discover, flatten, depth } = value as Record<string, unknown>;
+  const validPosts =
+    Array.isArray(posts) && posts.length > 0 && posts.every((post) => typeof post === "string");
+  const validDiscover =
+    !!discover &&
+    typeof discover === "object" &&
+    typeof (discover as { url?: unknown }).url === "string";
+  if (validPosts === validDiscover || typeof flatten !== "boolean") return null;
+  if (depth !== undefined && (typeof depth !== "number" || depth < 1)) return null;
+
+  const { url, author } = (discover ?? {}) as { url?: string; author?: unknown };
+  return {
+    posts: validPosts ? (posts as string[]) : undefined,
+    discover: validDiscover
+      ? { url: url!, author: typeof author === "string" ? author : undefined }
+      : undefined,
+    flatten,
+    depth: depth as number | undefined,
+  };
+}
+
+/**
+ * Path of the snapshot JSON file under the snapshot route
+ */
+export function snapshotPath(route: string, descriptor: SnapshotDescriptor): string {
+  return `${route.replace(/\/+$/, "")}/${snapshotFileName(descriptor)}`;
+}
+
+/**
+ * Route to prerender for a snapshot: its path with the encoded descriptor in the `key` query,
+ * which the build drops from the file name
+ */
+export function snapshotPrerenderRoute(route: string, descriptor: SnapshotDescriptor): string {
+  return `${snapshotPath(route, descriptor)}?key=${encodeSnapshotKey(descriptor)}`;
+}
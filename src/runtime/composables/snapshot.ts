@@ -0,0 +1,38 @@
+import type { BlueskySnapshot } from "../types";
+import { fetchSourceThreads } from "./aggregate.logic";
+import { fetchBlueskyThread } from "./blueskyThread";
+import { discoverBlueskyPost } from "./discover";
+import type { SnapshotDescriptor } from "./snapshot.logic";
+
+/**
+ * Fetch the thread described by a snapshot file name, for writing it at build time.
+ * A discovered page without a post is a valid snapshot with a null thread.
+ */
+export async function fetchBlueskySnapshot(
+  descriptor: SnapshotDescriptor,
+  options: { apiService?: string; signal?: AbortSignal } = {},
+): Promise<BlueskySnapshot> {
+  const generatedAt = new Date().toISOString();
+  const { apiService, signal } = options;
+
+  let inputs = descriptor.posts ?? [];
+  if (descriptor.discover) {
+    const uri = await discoverBlueskyPost(descriptor.discover.url, {
+      author: descriptor.discover.author,
+      apiService,
+      signal,
+    });
+    if (!uri) return { thread: null, sources: [], generatedAt };
+    inputs = [uri];
+  }
+
+  const { thread, sources } = await fetchSourceThreads(inputs, (input) =>
+    fetchBlueskyThread(input, {
+      apiService,
+      flattenSameAuthorThreads: descriptor.flatten,
+      depth: descriptor.depth,
+      signal,
+    }),
+  );
+  return { thread, sources, generatedAt };
+}
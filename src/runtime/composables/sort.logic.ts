@@ -0,0 +1,55 @@
+import type { CommentComparator, CommentSortOrder, FlattenedComment } from "../types";
+
+const SORT_COMPARATORS: Record<CommentSortOrder, CommentComparator> = {
+  top: (a, b) => b.likeCount + b.replyCount - (a.likeCount + a.replyCount),
+  newest: (a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt),
+  oldest: (a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt),
+  controversial: (a, b) => b.replyCount - a.replyCount || a.likeCount - b.likeCount,
+};
+
+export type SortCommentsOptions = {
+  /**
+   * Replies by this DID (usually the post author) are placed first
+   */
+  pinAuthorDid?: string;
+};
+
+/**
+ * Sort comments at every depth without breaking same-author continuation groups
+ * (a continuation always stays right after the comment it was promoted from).
+ * Replies the reader just posted from the page come first, so they don't land out of sight.
+ */
+export function sortComments(
+  comments: FlattenedComment[],
+  sort: CommentSortOrder | CommentComparator = "top",
+  options: SortCommentsOptions = {},
+): FlattenedComment[] {
+  const compare = typeof sort === "function" ? sort : SORT_COMPARATORS[sort];
+  const { pinAuthorDid } = options;
+
+  // Rebuild continuation groups: items linked (directly or through a chain) to the previous head
+  const groups: FlattenedComment[][] = [];
+  for (const comment of comments) {
+    const sorted = { ...comment, replies: sortComments(comment.replies, sort, options) };
+    const current = groups[groups.length - 1];
+    if (comment.continuationOf && current?.some((c) => c.uri === comment.continuationOf)) {
+      current.push(sorted);
+    } else {
+      groups.push([sorted]);
+    }
+  }
+
+  const isLocal = (group: FlattenedComment[]) => !!group[0]?.localState;
+  const isPinned = (group: FlattenedComment[]) =>
+    !!pinAuthorDid && group[0]?.author.did === pinAuthorDid;
+
+  groups.sort((a, b) => {
+    const local = Number(isLocal(b)) - Number(isLocal(a));
+    if (local !== 0) return local;
+    const pinned = Number(isPinned(b)) - Number(isPinned(a));
+    if (pinned !== 0) return pinned;
+    return compare(a[0] as FlattenedComment, b[0] as FlattenedComment);
+  });
+
+  return groups.flat();
+}
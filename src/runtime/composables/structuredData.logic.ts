@@ -0,0 +1,92 @@
+import type { AppBskyFeedDefs } from "@atproto/api";
+import type { FlattenedComment, PostStats } from "../types";
+import { postToComment, uriToUrl } from "./blueskyComments.logic";
+
+export const DEFAULT_STRUCTURED_DATA_MAX_COMMENTS = 20;
+
+type JsonLd = Record<string, unknown>;
+
+function person(author: FlattenedComment["author"]): JsonLd {
+  return {
+    "@type": "Person",
+    name: author.displayName || author.handle,
+    alternateName: `@${author.handle}`,
+    url: `https://bsky.app/profile/${author.handle}`,
+  };
+}
+
+function interactionCounter(action: string, count: number): JsonLd {
+  return {
+    "@type": "InteractionCounter",
+    interactionType: `https://schema.org/${action}`,
+    userInteractionCount: count,
+  };
+}
+
+/**
+ * Describe comments as schema.org `Comment` items, depth-first in display order, until `budget`
+ * runs out. Blurred and unconfirmed comments are left out together with their replies.
+ */
+function describeComments(comments: FlattenedComment[], budget: { remaining: number }): JsonLd[] {
+  const items: JsonLd[] = [];
+  for (const comment of comments) {
+    if (budget.remaining <= 0) break;
+    if (comment.moderation || comment.localState === "pending") continue;
+    budget.remaining--;
+
+    const item: JsonLd = {
+      "@type": "Comment",
+      url: uriToUrl(comment.uri, comment.author.handle),
+      text: comment.text,
+      dateCreated: comment.createdAt,
+      author: person(comment.author),
+      interactionStatistic: [interactionCounter("LikeAction", comment.likeCount)],
+    };
+    const replies = describeComments(comment.replies, budget);
+    if (replies.length > 0) item.comment = replies;
+    items.push(item);
+  }
+  return items;
+}
+
+/**
+ * schema.org `DiscussionForumPosting` for a Bluesky post and up to `maxComments` of its replies
+ */
+export function buildDiscussionJsonLd(
+  thread: {
+    post: AppBskyFeedDefs.PostView;
+    postUrl: string;
+    stats: PostStats;
+    comments: FlattenedComment[];
+  },
+  options: { maxComments?: number } = {},
+): JsonLd {
+  const post = postToComment(thread.post);
+  const comments = describeComments(thread.comments, {
+    remaining: options.maxComments ?? DEFAULT_STRUCTURED_DATA_MAX_COMMENTS,
+  });
+
+  return {
+    "@context": "https://schema.org",
+    "@type": "DiscussionForumPosting",
+    url: thread.postUrl,
+    text: post.text,
+    datePublished: post.createdAt,
+    author: person(post.author),
+    commentCount: thread.stats.replyCount,
+    interactionStatistic: [
+      interactionCounter("LikeAction", thread.stats.likeCount),
+      interactionCounter("ShareAction", thread.stats.repostCount),
+      interactionCounter("CommentAction", thread.stats.replyCount),
+    ],
+    ...(comments.length > 0 && { comment: comments }),
+  };
+}
+
+/**
+ * JSON for an inline `<script type="application/ld+json">`: `<` is escaped so comment text
+ * can't close the script element
+ */
+export function serializeJsonLd(data: JsonLd): string {
+  return JSON.stringify(data).replace(/</g, "\\u003c");
+}
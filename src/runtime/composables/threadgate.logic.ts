@@ -0,0 +1,42 @@
+import type { AppBskyFeedDefs } from "@atproto/api";
+import type { ReplyGate, ReplyGateRule } from "../types";
+
+type ThreadgateRecord = {
+  allow?: Array<{ $type?: string; list?: string }>;
+  hiddenReplies?: string[];
+};
+
+const RULE_TYPES: Record<string, ReplyGateRule> = {
+  "app.bsky.feed.threadgate#mentionRule": "mention",
+  "app.bsky.feed.threadgate#followingRule": "following",
+  "app.bsky.feed.threadgate#followerRule": "followers",
+  "app.bsky.feed.threadgate#listRule": "list",
+};
+
+/**
+ * URIs of replies hidden by the thread author
+ */
+export function getHiddenReplies(threadgate?: AppBskyFeedDefs.ThreadgateView): string[] {
+  const record = threadgate?.record as ThreadgateRecord | undefined;
+  return Array.isArray(record?.hiddenReplies) ? record.hiddenReplies : [];
+}
+
+/**
+ * Who may reply to the thread, or null when anyone can.
+ * An empty `allow` list means replies are disabled.
+ */
+export function getReplyGate(threadgate?: AppBskyFeedDefs.ThreadgateView): ReplyGate | null {
+  const record = threadgate?.record as ThreadgateRecord | undefined;
+  if (!record || !Array.isArray(record.allow)) return null;
+
+  const allow = new Set<ReplyGateRule>();
+  for (const rule of record.allow) {
+    const type = rule.$type ? RULE_TYPES[rule.$type] : undefined;
+    if (type) allow.add(type);
+  }
+
+  return {
+    allow: [...allow],
+    lists: (threadgate?.lists || []).map((list) => list.name),
+  };
+}
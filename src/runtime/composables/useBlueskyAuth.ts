@@ -0,0 +1,139 @@
+import { shallowRef, type Ref, type ShallowRef } from "vue";
+import type { Agent } from "@atproto/api";
+import type {
+  BrowserOAuthClient,
+  OAuthClientMetadataInput,
+  OAuthSession,
+} from "@atproto/oauth-client-browser";
+import { useRuntimeConfig, useState } from "#imports";
+import type { BlueskyAuth, BlueskyOAuthOptions, BlueskyViewer } from "../types";
+
+import { loadAtproto } from "./atproto";
+
+const DEFAULT_HANDLE_RESOLVER = "https://bsky.social";
+
+// The OAuth session and its agent only exist in the browser and can't be serialized into the payload,
+// so they live here instead of in `useState`
+let clientPromise: Promise<BrowserOAuthClient> | null = null;
+let session: OAuthSession | null = null;
+const viewerAgent = shallowRef<Agent | null>(null);
+
+function useAuthState() {
+  return {
+    viewer: useState<BlueskyViewer | null>("bluesky-auth-viewer", () => null),
+    ready: useState("bluesky-auth-ready", () => false),
+    error: useState<string | null>("bluesky-auth-error", () => null),
+  };
+}
+
+/**
+ * Load the browser OAuth client on demand (kept out of the main bundle)
+ */
+function loadOAuthClient(options: BlueskyOAuthOptions): Promise<BrowserOAuthClient> {
+  if (!clientPromise) {
+    clientPromise = import("@atproto/oauth-client-browser")
+      .then(
+        ({ BrowserOAuthClient }) =>
+          new BrowserOAuthClient({
+            // Completed with the browser client defaults by the module.
+            // Without metadata the client uses a development loopback client.
+            clientMetadata: options.clientMetadata as OAuthClientMetadataInput | undefined,
+            handleResolver: options.handleResolver ?? DEFAULT_HANDLE_RESOLVER,
+          }),
+      )
+      .catch((e) => {
+        clientPromise = null;
+        throw e;
+      });
+  }
+  return clientPromise;
+}
+
+async function activateSession(next: OAuthSession, viewer: Ref<BlueskyViewer | null>) {
+  const { Agent } = await loadAtproto();
+  const agent = new Agent(next);
+  session = next;
+  viewerAgent.value = agent;
+
+  try {
+    const { data } = await agent.getProfile({ actor: next.did });
+    viewer.value = {
+      did: data.did,
+      handle: data.handle,
+      displayName: data.displayName,
+      avatar: data.avatar,
+    };
+  } catch {
+    // The session works without the profile, show the DID instead
+    viewer.value = { did: next.did, handle: next.did };
+  }
+}
+
+/**
+ * Restore the stored session or finish a sign-in redirect.
+ * Called once by the client plugin when the module `oauth` option is set.
+ * Resolves to the page the reader signed in from, when returning from the authorization server.
+ */
+export async function initBlueskyAuth(options: BlueskyOAuthOptions): Promise<string | undefined> {
+  const { viewer, ready, error } = useAuthState();
+  try {
+    const client = await loadOAuthClient(options);
+    const result = await client.init();
+    if (result) {
+      await activateSession(result.session, viewer);
+      if ("state" in result && result.state) return result.state;
+    }
+  } catch (e) {
+    error.value = e instanceof Error ? e.message : String(e);
+  } finally {
+    ready.value = true;
+  }
+}
+
+/**
+ * Authenticated agent of the signed-in reader, null when signed out (always null on the server)
+ */
+export function useBlueskyAgent(): Readonly<ShallowRef<Agent | null>> {
+  return viewerAgent;
+}
+
+/**
+ * Sign in with Bluesky to like and reply from the page.
+ * Requires the module `oauth` option; the state is shared by all comment sections.
+ */
+export function useBlueskyAuth(): BlueskyAuth {
+  const config = useRuntimeConfig().public.blueskyComments;
+  const options = config?.oauth || undefined;
+  const { viewer, ready, error } = useAuthState();
+
+  return {
+    enabled: !!options,
+    viewer,
+    ready,
+    error,
+    async signIn(handle) {
+      if (!options) throw new Error("Bluesky sign-in is not configured (module `oauth` option)");
+      error.value = null;
+      try {
+        const client = await loadOAuthClient(options);
+        // Come back to this page after the authorization server redirects to `redirect_uris`
+        await client.signInRedirect(handle.trim().replace(/^@/, ""), {
+          state: `${window.location.pathname}${window.location.search}`,
+        });
+      } catch (e) {
+        error.value = e instanceof Error ? e.message : String(e);
+      }
+    },
+    async signOut() {
+      try {
+        await session?.signOut();
+      } catch {
+        // The local session is dropped either way
+      } finally {
+        session = null;
+        viewerAgent.value = null;
+        viewer.value = null;
+      }
+    },
+  };
+}
@@ -1,128 +1,712 @@
-import { ref, computed } from "vue";
-import type { AppBskyFeedDefs } from "@atproto/api";
-import type { FlattenedComment, PostStats, BlueskyCommentsResult, ThreadViewPost } from "../types";
+import { computed, ref, shallowRef, toValue, watch, type MaybeRefOrGetter } from "vue";
+import { prerenderRoutes, useAsyncData, useRequestURL, useRoute, useRuntimeConfig } from "#imports";
+import type {
+  BlueskyCommentsResult,
+  BlueskySnapshot,
+  BlueskyThreadData,
+  BlueskyThreadSource,
+  FlattenedComment,
+  UseBlueskyCommentsOptions,
+} from "../types";
 
+import { fetchSourceThreads, groupCommentsBySource, tagSource } from "./aggregate.logic";
+import { DEFAULT_API_SERVICE, loadAtproto } from "./atproto";
+import { getCommentBadges } from "./badges.logic";
 import {
-  parseBlueskyUrl,
-  processReplies,
-  uriToUrl,
-  type ProcessRepliesOptions,
-} from "./blueskyComments.logic";
-import { getAtpAgent, loadAtproto } from "./atproto";
+  dedupeRequest,
+  getCacheStore,
+  invalidateBlueskyCache,
+  readCache,
+  resolveCacheOptions,
+  writeCache,
+} from "./cache";
+import { fetchBlueskyThread } from "./blueskyThread";
+import { discoverBlueskyPost } from "./discover";
+import { normalizePageUrl } from "./discover.logic";
+import { parseRichText } from "./richText.logic";
+import { mergeLoadedReplies } from "./commentTree.logic";
+import {
+  clearViewerState,
+  createLocalReply,
+  insertReply,
+  removeComment,
+  setViewerLike,
+  updateComment,
+} from "./interactions.logic";
+import { countNewComments, mergeThreadUpdate, resolveLiveOptions } from "./live.logic";
+import { startPolling, subscribeLiveRoute } from "./liveUpdates";
+import { useBlueskyAgent, useBlueskyAuth } from "./useBlueskyAuth";
+import { applyModeration, mergeModerationOptions } from "./moderation.logic";
+import {
+  DEFAULT_SNAPSHOT_ROUTE,
+  snapshotPath,
+  snapshotPrerenderRoute,
+  type SnapshotDescriptor,
+} from "./snapshot.logic";
+import { sortComments } from "./sort.logic";
+
+const JETSTREAM_REFETCH_DELAY = 2000;
+
+type ThreadState = {
+  key: string;
+  thread: BlueskyThreadData | null;
+  sources: BlueskyThreadSource[];
+  /** Set while the thread comes from a build-time snapshot */
+  snapshotAt?: string;
+  /** Set while the thread comes from the browser cache */
+  cachedAt?: string;
+};
+
+type CachedThread = Pick<ThreadState, "thread" | "sources">;
+
+// Like record URI placeholder while the like is being created
+const PENDING_LIKE = "pending";
 
 /**
- * Composable to fetch and manage Bluesky comments
+ * Fetch a processed thread from the module's server proxy route.
+ * Concurrent fetches of the same post and options share one request.
+ * `fresh` skips the route's cache, for refetches that must include a reply just posted.
  */
-export function useBlueskyComments(
+async function fetchThreadFromProxy(
+  route: string,
   uriOrUrl: string,
-  options: Pick<ProcessRepliesOptions, "flattenSameAuthorThreads"> = {},
+  options: {
+    flattenSameAuthorThreads: boolean;
+    depth?: number;
+    fresh?: boolean;
+    signal?: AbortSignal;
+  },
+): Promise<BlueskyThreadData> {
+  const query = {
+    uri: uriOrUrl,
+    flatten: String(options.flattenSameAuthorThreads),
+    depth: options.depth,
+    fresh: options.fresh ? "true" : undefined,
+  };
+  try {
+    return await dedupeRequest(
+      `proxy:${route}:${uriOrUrl}:${query.flatten}:${query.depth ?? ""}:${query.fresh ?? ""}`,
+      (signal) => $fetch<BlueskyThreadData>(route, { query, signal }),
+      options.signal,
+    );
+  } catch (e) {
+    const data = (e as { data?: { message?: string } }).data;
+    throw new Error(data?.message || (e instanceof Error ? e.message : "Proxy request failed"));
+  }
+}
+
+/**
+ * Composable to fetch and manage Bluesky comments.
+ * The thread is fetched during SSR and hydrated from the payload unless `server` is false.
+ * When the module `proxy` option is enabled, threads are fetched through the cached server route.
+ * The post identifier and options may be refs or getters: changing the post (or AppView / flattening)
+ * aborts the in-flight request, resets the state and refetches.
+ * With `live`, the browser watches for new replies and holds them until `showNewComments` is called.
+ * When the reader is signed in with Bluesky, threads are fetched with their account (so like state is
+ * included) and `toggleLike` / `reply` update the tree optimistically, rolling back on failure.
+ * Several posts are fetched in parallel and merged into one discussion; a post that fails to load
+ * is reported in `sourceErrors` while the others still render.
+ */
+export function useBlueskyComments(
+  uriOrUrl: MaybeRefOrGetter<string | string[]>,
+  options: UseBlueskyCommentsOptions = {},
 ): BlueskyCommentsResult {
-  const loading = ref(true);
-  const error = ref<string | null>(null);
-  const post = ref<AppBskyFeedDefs.PostView | null>(null);
-  const comments = ref<FlattenedComment[]>([]);
-  const stats = ref<PostStats>({
-    likeCount: 0,
-    repostCount: 0,
-    replyCount: 0,
-    quoteCount: 0,
+  const config = useRuntimeConfig().public.blueskyComments;
+
+  const identifiers = computed(() => {
+    const value = toValue(uriOrUrl);
+    const list = (Array.isArray(value) ? value : [value]).map((item) => item?.trim() ?? "");
+    return [...new Set(list.filter(Boolean))];
   });
-  const postUrl = ref("");
+  const identifier = computed(() => identifiers.value.join(", "));
+  const apiService = computed(
+    () => toValue(options.apiService) || config?.apiService || DEFAULT_API_SERVICE,
+  );
+  const flattenSameAuthorThreads = computed(
+    () => toValue(options.flattenSameAuthorThreads) ?? true,
+  );
+  // A per-call AppView override bypasses the proxy, which always uses the module apiService
+  const proxyRoute = computed(() =>
+    typeof config?.proxy === "object" && !toValue(options.apiService)
+      ? config.proxy.route
+      : undefined,
+  );
 
-  async function resolveUri(input: string): Promise<string> {
-    // Already an AT URI
-    if (input.startsWith("at://")) {
-      return input;
-    }
+  // Site-wide moderation from the module config, extended per call
+  const moderationOptions = computed(() =>
+    mergeModerationOptions(config, {
+      labelActions: toValue(options.labelActions),
+      mutedDids: toValue(options.mutedDids),
+      mutedWords: toValue(options.mutedWords),
+    }),
+  );
 
-    // Parse Bluesky URL
-    const parsed = parseBlueskyUrl(input);
-    if (!parsed) {
-      throw new Error("Invalid Bluesky URL format");
-    }
+  const depth = computed(() => toValue(options.depth));
+
+  // Without a post, look up the post linking to the page (the current route's canonical URL by default)
+  const route = useRoute();
+  const requestUrl = useRequestURL();
+  const discovery = computed(() => {
+    const discover = toValue(options.discover);
+    if (!discover || identifier.value) return null;
+    const { url, author } = discover === true ? {} : discover;
+    const pageUrl = url ?? new URL(route.path, config?.discover?.siteUrl || requestUrl.origin).href;
+    return { url: normalizePageUrl(pageUrl), author: author ?? config?.discover?.author };
+  });
+
+  const postKey = computed(() => {
+    if (identifier.value) return identifier.value;
+    return discovery.value ? `discover:${discovery.value.url}:${discovery.value.author ?? ""}` : "";
+  });
 
-    const { identifier, rkey } = parsed;
+  const key = computed(
+    () =>
+      `bluesky-comments:${apiService.value}:${postKey.value}:${flattenSameAuthorThreads.value ? "flat" : "nested"}:${depth.value ?? "full"}`,
+  );
 
-    // If it's already a DID, use it directly
-    if (identifier.startsWith("did:")) {
-      return `at://${identifier}/app.bsky.feed.post/${rkey}`;
+  // Static JSON written while prerendering (module `snapshots` option); an AppView override skips it
+  const snapshotOptions = typeof config?.snapshots === "object" ? config.snapshots : undefined;
+  const snapshotRoute = snapshotOptions?.route ?? DEFAULT_SNAPSHOT_ROUTE;
+  const snapshotDescriptor = computed((): SnapshotDescriptor | undefined => {
+    if (!snapshotOptions || import.meta.dev || toValue(options.apiService) || !postKey.value) {
+      return undefined;
     }
+    return {
+      posts: identifiers.value.length ? identifiers.value : undefined,
+      discover: identifiers.value.length ? undefined : (discovery.value ?? undefined),
+      flatten: flattenSameAuthorThreads.value,
+      depth: depth.value,
+    };
+  });
+  const snapshotUrl = computed(() =>
+    snapshotDescriptor.value ? snapshotPath(snapshotRoute, snapshotDescriptor.value) : undefined,
+  );
 
-    // Resolve handle to DID
-    const agent = await getAtpAgent();
-    const { data } = await agent.resolveHandle({ handle: identifier });
-    return `at://${data.did}/app.bsky.feed.post/${rkey}`;
+  // Pages rendered by `nuxi generate` add their snapshot to the prerendered files
+  if (import.meta.server && snapshotDescriptor.value) {
+    prerenderRoutes(snapshotPrerenderRoute(snapshotRoute, snapshotDescriptor.value));
   }
 
-  async function fetchComments() {
-    loading.value = true;
-    error.value = null;
+  // Threads kept in the browser (`cache` option), shown on the next mount or visit while the live one loads
+  const cacheOptions = computed(() =>
+    import.meta.client ? resolveCacheOptions(toValue(options.cache) ?? config?.cache) : null,
+  );
 
-    try {
-      const [uri, { AppBskyFeedDefs }] = await Promise.all([resolveUri(uriOrUrl), loadAtproto()]);
+  const auth = useBlueskyAuth();
+  const viewerAgent = useBlueskyAgent();
 
-      const agent = await getAtpAgent();
+  function fetchThread(
+    uriOrUrl: string,
+    signal?: AbortSignal,
+    fresh = false,
+  ): Promise<BlueskyThreadData> {
+    const fetchOptions = {
+      flattenSameAuthorThreads: flattenSameAuthorThreads.value,
+      depth: depth.value,
+      signal,
+    };
+    // The reader's like state needs their own session, the shared proxy cache can't provide it
+    if (viewerAgent.value) {
+      return fetchBlueskyThread(uriOrUrl, {
+        ...fetchOptions,
+        apiService: apiService.value,
+        agent: viewerAgent.value,
+      });
+    }
+    return proxyRoute.value
+      ? fetchThreadFromProxy(proxyRoute.value, uriOrUrl, { ...fetchOptions, fresh })
+      : fetchBlueskyThread(uriOrUrl, { ...fetchOptions, apiService: apiService.value });
+  }
 
-      // Fetch the full thread with maximum depth
-      const response = await agent.getPostThread({
-        uri,
-        depth: 1000, // Fetch full depth
-        parentHeight: 0, // We don't need parent context
+  /**
+   * Find the post of the page, through the cached proxy route when enabled
+   */
+  async function discoverPost(signal?: AbortSignal): Promise<string | null> {
+    const { url, author } = discovery.value!;
+    const discoverRoute =
+      proxyRoute.value && typeof config?.proxy === "object"
+        ? config.proxy.discoverRoute
+        : undefined;
+    if (discoverRoute) {
+      const { uri } = await $fetch<{ uri: string | null }>(discoverRoute, {
+        query: { url, author },
+        signal,
       });
+      return uri;
+    }
+    return discoverBlueskyPost(url, { author, apiService: apiService.value, signal });
+  }
 
-      if (!response.success) {
-        throw new Error(`Failed to fetch post: ${uri}`);
-      }
+  /**
+   * Fetch one thread, or the threads of several posts in parallel merged into one
+   */
+  function fetchThreads(
+    inputs: string[],
+    signal?: AbortSignal,
+    fresh = false,
+  ): Promise<{ thread: BlueskyThreadData; sources: BlueskyThreadSource[] }> {
+    return fetchSourceThreads(inputs, (input) => fetchThread(input, signal, fresh));
+  }
+
+  // Posts to refetch for live updates and sign-in, by AT URI once loaded
+  const loadedInputs = () =>
+    data.value?.sources.length
+      ? data.value.sources.map((source) => source.uri ?? source.input)
+      : thread.value
+        ? [thread.value.post.uri]
+        : [];
+
+  /**
+   * Fetch the live thread, discovering the post first when none is given
+   */
+  async function fetchLiveThread(requestKey: string, signal?: AbortSignal): Promise<ThreadState> {
+    const inputs = identifiers.value.length
+      ? identifiers.value
+      : [await discoverPost(signal)].filter((uri): uri is string => !!uri);
+    if (!inputs.length) return { key: requestKey, thread: null, sources: [] };
+
+    return { key: requestKey, ...(await fetchThreads(inputs, signal)) };
+  }
+
+  /**
+   * Keep a live thread for the next mount or visit
+   */
+  function storeInCache(state: ThreadState) {
+    const cache = cacheOptions.value;
+    if (!cache || !state.thread || viewerAgent.value) return;
+    const posts = [
+      ...identifiers.value,
+      state.thread.post.uri,
+      ...state.sources.flatMap((source) => (source.uri ? [source.uri] : [])),
+    ];
+    const value: CachedThread = { thread: state.thread, sources: state.sources };
+    void writeCache(
+      getCacheStore(cache.storage),
+      state.key,
+      { value, posts: [...new Set(posts)], storedAt: Date.now() },
+      cache,
+    );
+  }
 
-      const { data } = response;
+  // Set by `refresh()` to skip the cache and snapshot
+  let forceLive = false;
 
-      if (!AppBskyFeedDefs.isThreadViewPost(data.thread)) {
-        // Check if it's a blocked or not found post
-        if (AppBskyFeedDefs.isBlockedPost(data.thread)) {
-          throw new Error("This post is from a blocked account");
+  // Each fetch aborts the previous one, so a slow response for the previous post can't land late
+  let controller: AbortController | undefined;
+
+  const {
+    data,
+    status,
+    error: fetchError,
+    refresh,
+  } = useAsyncData<ThreadState>(
+    key,
+    async (_nuxtApp, { signal }) => {
+      controller?.abort();
+      const current = new AbortController();
+      controller = current;
+      signal.addEventListener("abort", () => current.abort(signal.reason), { once: true });
+
+      const requestKey = key.value;
+      if (!postKey.value) return { key: requestKey, thread: null, sources: [] };
+
+      // The reader's like state needs a live fetch with their session
+      const cache = cacheOptions.value;
+      if (cache && !viewerAgent.value && !forceLive) {
+        const cached = await readCache<CachedThread>(
+          getCacheStore(cache.storage),
+          requestKey,
+          cache.ttl,
+        );
+        if (cached) {
+          const cachedAt = new Date(cached.storedAt).toISOString();
+          return { key: requestKey, ...cached.value, cachedAt };
         }
-        if (AppBskyFeedDefs.isNotFoundPost(data.thread)) {
-          throw new Error(`Post not found: ${uri}`);
+      }
+
+      if (snapshotUrl.value && !viewerAgent.value && !forceLive) {
+        const snapshot = await $fetch<BlueskySnapshot>(snapshotUrl.value, {
+          signal: current.signal,
+        }).catch(() => null);
+        if (snapshot) {
+          const { thread, sources, generatedAt } = snapshot;
+          return { key: requestKey, thread, sources, snapshotAt: generatedAt };
         }
-        throw new Error("Post not found or not accessible");
       }
 
-      const thread = data.thread as ThreadViewPost;
-      post.value = thread.post;
+      const live = await fetchLiveThread(requestKey, current.signal);
+      storeInCache(live);
+      return live;
+    },
+    {
+      server: options.server ?? true,
+      lazy: true,
+    },
+  );
+
+  // useAsyncData carries the previous key's data over while refetching; only expose data for the current key
+  const thread = computed(() => (data.value?.key === key.value ? data.value.thread : null));
 
-      // Set stats
-      stats.value = {
-        likeCount: thread.post.likeCount || 0,
-        repostCount: thread.post.repostCount || 0,
-        replyCount: thread.post.replyCount || 0,
-        quoteCount: (thread.post as { quoteCount?: number }).quoteCount || 0,
+  // URIs of comments whose deeper replies are being fetched
+  const loadingReplies = ref(new Set<string>());
+
+  /**
+   * Fetch the replies of a comment below the loaded depth and merge them into the tree
+   */
+  async function loadMoreReplies(comment: FlattenedComment): Promise<void> {
+    const requestKey = key.value;
+    if (loadingReplies.value.has(comment.uri)) return;
+
+    loadingReplies.value.add(comment.uri);
+    try {
+      const subtree = await fetchThread(comment.uri);
+      const current = data.value;
+      // The post changed while loading
+      if (!current?.thread || current.key !== requestKey) return;
+
+      const replies = comment.source
+        ? tagSource(subtree.comments, comment.source)
+        : subtree.comments;
+      data.value = {
+        ...current,
+        thread: {
+          ...current.thread,
+          comments: mergeLoadedReplies(current.thread.comments, comment.uri, replies, {
+            flattenSameAuthorThreads: flattenSameAuthorThreads.value,
+          }),
+        },
       };
+    } finally {
+      loadingReplies.value.delete(comment.uri);
+    }
+  }
+
+  /**
+   * Update the comments of the loaded thread, unless the post changed since `requestKey`
+   */
+  function updateComments(
+    requestKey: string,
+    update: (comments: FlattenedComment[]) => FlattenedComment[],
+  ) {
+    const current = data.value;
+    if (!current?.thread || current.key !== requestKey) return;
+    data.value = {
+      ...current,
+      thread: { ...current.thread, comments: update(current.thread.comments) },
+    };
+  }
+
+  const actionError = ref<string | null>(null);
+  // URIs of comments with a like or unlike request in flight
+  const likesInFlight = new Set<string>();
+
+  async function toggleLike(comment: FlattenedComment): Promise<void> {
+    const agent = viewerAgent.value;
+    if (!agent) throw new Error("Sign in with Bluesky to like comments");
+    if (comment.localState === "pending" || likesInFlight.has(comment.uri)) return;
 
-      // Set post URL
-      postUrl.value = uriToUrl(uri, thread.post.author.handle);
+    const requestKey = key.value;
+    const previous = comment.viewerLike;
+    const setLike = (likeUri: string | undefined) =>
+      updateComments(requestKey, (comments) =>
+        updateComment(comments, comment.uri, (c) => setViewerLike(c, likeUri)),
+      );
 
-      // Process replies - now async since it needs to load the module
-      comments.value = await processReplies(thread.replies, thread.post.author.did, 0, options);
+    actionError.value = null;
+    likesInFlight.add(comment.uri);
+    setLike(previous ? undefined : PENDING_LIKE);
+    try {
+      if (previous) {
+        await agent.deleteLike(previous);
+      } else {
+        const { uri } = await agent.like(comment.uri, comment.id);
+        setLike(uri);
+      }
     } catch (e) {
-      error.value =
-        e instanceof Error
-          ? `Failed to load comments from ${uriOrUrl}: ${e.message}`
-          : "Failed to load comments";
+      setLike(previous);
+      actionError.value = e instanceof Error ? e.message : "Failed to update the like";
+      throw e;
     } finally {
-      loading.value = false;
+      likesInFlight.delete(comment.uri);
+    }
+  }
+
+  async function reply(text: string, parent?: FlattenedComment): Promise<void> {
+    const agent = viewerAgent.value;
+    const viewer = auth.viewer.value;
+    const root = thread.value?.post;
+    if (!agent || !viewer) throw new Error("Sign in with Bluesky to reply");
+    if (!root) throw new Error("The post is not loaded");
+    const trimmed = text.trim();
+    if (!trimmed) return;
+
+    // With several posts, a nested reply belongs to the thread of the comment's post
+    const source = parent?.source
+      ? data.value?.sources.find((s) => s.uri === parent.source && s.cid)
+      : undefined;
+    const rootRef = source
+      ? { uri: source.uri!, cid: source.cid! }
+      : { uri: root.uri, cid: root.cid };
+
+    const requestKey = key.value;
+    const created = createLocalReply(trimmed, viewer, parent);
+    const local = data.value?.sources.length ? { ...created, source: rootRef.uri } : created;
+    actionError.value = null;
+    updateComments(requestKey, (comments) => insertReply(comments, local, parent?.uri));
+
+    try {
+      const { RichText } = await loadAtproto();
+      const richText = new RichText({ text: trimmed });
+      await richText.detectFacets(agent);
+
+      const posted = await agent.post({
+        text: richText.text,
+        facets: richText.facets,
+        reply: { root: rootRef, parent: parent ? { uri: parent.uri, cid: parent.id } : rootRef },
+        createdAt: local.createdAt,
+      });
+
+      updateComments(requestKey, (comments) =>
+        updateComment(comments, local.uri, (c) => ({
+          ...c,
+          id: posted.cid,
+          uri: posted.uri,
+          segments: parseRichText(richText.text, richText.facets),
+          localState: "posted",
+        })),
+      );
+      // The cached thread misses the new reply
+      void invalidateBlueskyCache(rootRef.uri);
+    } catch (e) {
+      updateComments(requestKey, (comments) => removeComment(comments, local.uri));
+      actionError.value = e instanceof Error ? e.message : "Failed to post the reply";
+      throw e;
+    }
+  }
+
+  const moderate = (update: BlueskyThreadData | null | undefined) =>
+    applyModeration(update?.comments ?? [], moderationOptions.value, {
+      hiddenReplies: update?.hiddenReplies ?? [],
+      mode: toValue(options.hiddenReplies) ?? "hide",
+    });
+
+  const moderated = computed(() => moderate(thread.value));
+
+  // Latest thread fetched by live updates, not merged into the tree until `showNewComments`
+  const pending = shallowRef<{
+    key: string;
+    thread: BlueskyThreadData;
+    sources: BlueskyThreadSource[];
+  } | null>(null);
+  const pendingThread = computed(() =>
+    pending.value?.key === key.value ? pending.value.thread : null,
+  );
+
+  /**
+   * Refetch the thread in the background, resolving to true when it has replies not seen before.
+   * `fresh` bypasses the proxy cache, which can't hold a reply announced by Jetstream yet.
+   */
+  async function checkForUpdates(fresh = false): Promise<boolean> {
+    const requestKey = key.value;
+    if (!thread.value || status.value === "pending") return false;
+
+    const incoming = await fetchThreads(loadedInputs(), undefined, fresh);
+    if (key.value !== requestKey) return false;
+
+    const previous = pendingThread.value ?? thread.value;
+    pending.value = { key: requestKey, ...incoming };
+    return countNewComments(previous?.comments ?? [], incoming.thread.comments) > 0;
+  }
+
+  function showNewComments() {
+    const update = pendingThread.value;
+    const current = data.value;
+    if (!update || !current?.thread || current.key !== key.value) return;
+
+    data.value = {
+      key: current.key,
+      thread: { ...update, comments: mergeThreadUpdate(current.thread.comments, update.comments) },
+      sources: pending.value?.sources ?? current.sources,
+    };
+    pending.value = null;
+  }
+
+  if (import.meta.client) {
+    // Stale-while-revalidate: replace a cached thread or snapshot with the live one once it has loaded
+    watch(
+      () => {
+        const current = data.value?.key === key.value ? data.value : undefined;
+        if (current?.cachedAt) return current.cachedAt;
+        return snapshotOptions?.revalidate === false ? undefined : current?.snapshotAt;
+      },
+      async (staleAt) => {
+        if (!staleAt) return;
+        const requestKey = key.value;
+        try {
+          const live = await fetchLiveThread(requestKey);
+          const current = data.value;
+          if (current?.key !== requestKey || !(current.cachedAt || current.snapshotAt)) return;
+          data.value = live;
+          storeInCache(live);
+        } catch {
+          // Keep showing the cached thread
+        }
+      },
+      { immediate: true },
+    );
+
+    // A thread rendered during SSR is cached once hydrated
+    if (data.value?.thread && !data.value.cachedAt && !data.value.snapshotAt) {
+      storeInCache(data.value);
     }
+
+    // Signing in or out changes the reader's like state on every comment
+    watch(viewerAgent, async (agent) => {
+      const requestKey = key.value;
+      if (!thread.value) return;
+      if (!agent) {
+        updateComments(requestKey, clearViewerState);
+        return;
+      }
+      try {
+        const incoming = await fetchThreads(loadedInputs());
+        updateComments(requestKey, (comments) =>
+          mergeThreadUpdate(comments, incoming.thread.comments),
+        );
+      } catch {
+        // Keep showing the public thread
+      }
+    });
+
+    watch(
+      [() => resolveLiveOptions(toValue(options.live)), () => loadedInputs().join(" ")],
+      ([live, roots], _, onCleanup) => {
+        if (!live || !roots) return;
+
+        // Jetstream is relayed by the server proxy; without it, poll
+        const liveRoute = typeof config?.proxy === "object" ? config.proxy.liveRoute : undefined;
+        if (live.mode === "poll" || !liveRoute) {
+          onCleanup(startPolling({ ...live, check: () => checkForUpdates() }));
+          return;
+        }
+
+        // A reply event arrives before the AppView has indexed the post, so refetch shortly after
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        let stopPolling: (() => void) | undefined;
+        const query = new URLSearchParams(
+          roots
+            .split(" ")
+            .filter((root) => root.startsWith("at://"))
+            .map((root) => ["uri", root]),
+        );
+        const stop = subscribeLiveRoute({
+          url: `${liveRoute}?${query}`,
+          onReply: () => {
+            clearTimeout(timer);
+            timer = setTimeout(
+              () => void checkForUpdates(true).catch(() => {}),
+              JETSTREAM_REFETCH_DELAY,
+            );
+          },
+          onUnavailable: () => {
+            stopPolling ??= startPolling({ ...live, check: () => checkForUpdates() });
+          },
+        });
+        onCleanup(() => {
+          clearTimeout(timer);
+          stop();
+          stopPolling?.();
+        });
+      },
+      { immediate: true },
+    );
   }
 
-  // Fetch on creation
-  fetchComments();
+  const sources = computed(() => (data.value?.key === key.value ? data.value.sources : []));
+
+  // Site-wide roles from the module config, extended per call
+  const badgeOptions = computed(() => {
+    const authorDids = [
+      thread.value?.post.author.did,
+      ...sources.value.map((source) => source.authorDid),
+    ].filter((did): did is string => !!did);
+    return {
+      authorDids: (toValue(options.authorBadge) ?? true) ? authorDids : [],
+      roles: { ...config?.roles, ...toValue(options.roles) },
+      domainBadge: toValue(options.domainBadge) ?? false,
+    };
+  });
+
+  const sortedComments = computed(() => {
+    const sorted = sortComments(moderated.value.comments, toValue(options.sort) ?? "top", {
+      pinAuthorDid: toValue(options.pinAuthorReplies) ? thread.value?.post.author.did : undefined,
+    });
+    if (!toValue(options.groupBySource) || sources.value.length < 2) return sorted;
+    return groupCommentsBySource(
+      sorted,
+      sources.value.flatMap((source) => (source.uri ? [source.uri] : [])),
+    );
+  });
 
   return {
-    loading: computed(() => loading.value),
-    error: computed(() => error.value),
-    post: computed(() => post.value),
-    comments: computed(() => comments.value),
-    stats: computed(() => stats.value),
-    postUrl: computed(() => postUrl.value),
-    refresh: fetchComments,
+    // "idle" covers client-only mode before the client fetch starts
+    loading: computed(
+      () => !!postKey.value && (status.value === "pending" || status.value === "idle"),
+    ),
+    error: computed(() => {
+      if (!postKey.value) return "No Bluesky post URL or URI provided";
+      if (!fetchError.value) return null;
+      return fetchError.value.message
+        ? `Failed to load comments from ${identifier.value || discovery.value?.url}: ${fetchError.value.message}`
+        : "Failed to load comments";
+    }),
+    notDiscovered: computed(() => !!discovery.value && status.value === "success" && !thread.value),
+    snapshotAt: computed(() =>
+      data.value?.key === key.value ? (data.value.snapshotAt ?? null) : null,
+    ),
+    cachedAt: computed(() =>
+      data.value?.key === key.value ? (data.value.cachedAt ?? null) : null,
+    ),
+    sources,
+    sourceErrors: computed(() =>
+      sources.value.flatMap((source) =>
+        source.error ? [{ source: source.input, error: source.error }] : [],
+      ),
+    ),
+    post: computed(() => thread.value?.post ?? null),
+    comments: sortedComments,
+    hiddenCount: computed(() => moderated.value.hiddenCount),
+    stats: computed(
+      () =>
+        thread.value?.stats ?? {
+          likeCount: 0,
+          repostCount: 0,
+          replyCount: 0,
+          quoteCount: 0,
+        },
+    ),
+    postUrl: computed(() => thread.value?.postUrl ?? ""),
+    replyGate: computed(() => thread.value?.replyGate ?? null),
+    getBadges: (author) => getCommentBadges(author, badgeOptions.value),
+    loadingReplies,
+    loadMoreReplies,
+    actionError,
+    toggleLike,
+    reply,
+    newCommentCount: computed(() =>
+      pendingThread.value
+        ? countNewComments(moderated.value.comments, moderate(pendingThread.value).comments)
+        : 0,
+    ),
+    showNewComments,
+    refresh: async () => {
+      pending.value = null;
+      forceLive = true;
+      try {
+        await refresh();
+      } finally {
+        forceLive = false;
+      }
+    },
   };
 }
@@ -0,0 +1,60 @@
+import { computed, toValue, type MaybeRefOrGetter } from "vue";
+import { useRuntimeConfig } from "#imports";
+import type {
+  BlueskyActor,
+  BlueskyEngagementPage,
+  BlueskyEngagementResult,
+  EngagementKind,
+  UseBlueskyEngagementOptions,
+} from "../types";
+
+import { DEFAULT_API_SERVICE } from "./atproto";
+import { fetchBlueskyEngagement } from "./blueskyEngagement";
+import { usePagedList } from "./pagedList";
+
+/**
+ * Accounts that liked or reposted a post, fetched page by page.
+ * Nothing is fetched until `loadMore` is called, so facepiles cost no request until shown.
+ * When the module `proxy` option is enabled, pages are fetched through the cached server route.
+ */
+export function useBlueskyEngagement(
+  uriOrUrl: MaybeRefOrGetter<string | undefined>,
+  kind: MaybeRefOrGetter<EngagementKind>,
+  options: UseBlueskyEngagementOptions = {},
+): BlueskyEngagementResult {
+  const config = useRuntimeConfig().public.blueskyComments;
+
+  const identifier = computed(() => toValue(uriOrUrl)?.trim() ?? "");
+  const apiService = computed(
+    () => toValue(options.apiService) || config?.apiService || DEFAULT_API_SERVICE,
+  );
+  // A per-call AppView override bypasses the proxy, which always uses the module apiService
+  const proxyRoute = computed(() =>
+    typeof config?.proxy === "object" && !toValue(options.apiService)
+      ? config.proxy.engagementRoute
+      : undefined,
+  );
+
+  const { items, ...list } = usePagedList<BlueskyActor>({
+    source: () =>
+      identifier.value ? `${apiService.value}|${toValue(kind)}|${identifier.value}` : "",
+    fetchPage: (cursor, signal) => {
+      const page = proxyRoute.value
+        ? $fetch<BlueskyEngagementPage>(proxyRoute.value, {
+            query: { kind: toValue(kind), uri: identifier.value, cursor, limit: options.limit },
+            signal,
+          })
+        : fetchBlueskyEngagement(toValue(kind), identifier.value, {
+            apiService: apiService.value,
+            cursor,
+            limit: options.limit,
+            signal,
+          });
+      return page.then(({ actors, cursor }) => ({ items: actors, cursor }));
+    },
+    itemKey: (actor) => actor.did,
+    fallbackError: "Failed to load accounts",
+  });
+
+  return { actors: items, ...list };
+}
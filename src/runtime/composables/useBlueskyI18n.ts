@@ -0,0 +1,44 @@
+import { computed, inject, provide, toValue, type ComputedRef, type MaybeRefOrGetter } from "vue";
+import { useNuxtApp, useRuntimeConfig } from "#imports";
+import type { BlueskyI18n } from "../types";
+
+import { createBlueskyI18n } from "./i18n.logic";
+
+const I18N_KEY = "blueskyI18n";
+
+/**
+ * Current `@nuxtjs/i18n` locale, or undefined when the module isn't installed
+ */
+function useNuxtI18nLocale(): () => string | undefined {
+  const i18n = useNuxtApp().$i18n as { locale?: MaybeRefOrGetter<string> } | undefined;
+  return () => (i18n?.locale ? toValue(i18n.locale) : undefined);
+}
+
+/**
+ * Translation and formatting helpers for the comments UI.
+ * Locale priority: the `locale` argument, the module `locale` option, `@nuxtjs/i18n`, English.
+ */
+export function useBlueskyI18n(
+  locale?: MaybeRefOrGetter<string | undefined>,
+): ComputedRef<BlueskyI18n> {
+  const config = useRuntimeConfig().public.blueskyComments;
+  const nuxtI18nLocale = useNuxtI18nLocale();
+
+  return computed(() =>
+    createBlueskyI18n(toValue(locale) || config?.locale || nuxtI18nLocale(), config?.messages),
+  );
+}
+
+/**
+ * Share the helpers of a `<BlueskyComments>` instance with its comments
+ */
+export function provideBlueskyI18n(i18n: ComputedRef<BlueskyI18n>): void {
+  provide(I18N_KEY, i18n);
+}
+
+/**
+ * Helpers provided by the parent `<BlueskyComments>`, or resolved from the config when used standalone
+ */
+export function injectBlueskyI18n(): ComputedRef<BlueskyI18n> {
+  return inject<ComputedRef<BlueskyI18n> | null>(I18N_KEY, null) ?? useBlueskyI18n();
+}
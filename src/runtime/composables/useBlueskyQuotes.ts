@@ -0,0 +1,75 @@
+import { computed, toValue, type MaybeRefOrGetter } from "vue";
+import { useRuntimeConfig } from "#imports";
+import type {
+  BlueskyQuotesPage,
+  BlueskyQuotesResult,
+  FlattenedComment,
+  UseBlueskyQuotesOptions,
+} from "../types";
+
+import { DEFAULT_API_SERVICE } from "./atproto";
+import { fetchBlueskyQuotes } from "./blueskyQuotes";
+import { applyModeration, mergeModerationOptions } from "./moderation.logic";
+import { usePagedList } from "./pagedList";
+
+/**
+ * Posts quoting a post, fetched page by page with `app.bsky.feed.getQuotes`.
+ * Nothing is fetched until `loadMore` is called, so a closed "Quotes" tab costs no request.
+ * Changing the post or AppView aborts the in-flight request and clears the loaded quotes.
+ * When the module `proxy` option is enabled, pages are fetched through the cached server route.
+ * Quotes are moderated like replies: labels, muted accounts and muted words hide or blur them.
+ */
+export function useBlueskyQuotes(
+  uriOrUrl: MaybeRefOrGetter<string | undefined>,
+  options: UseBlueskyQuotesOptions = {},
+): BlueskyQuotesResult {
+  const config = useRuntimeConfig().public.blueskyComments;
+
+  const identifier = computed(() => toValue(uriOrUrl)?.trim() ?? "");
+  const apiService = computed(
+    () => toValue(options.apiService) || config?.apiService || DEFAULT_API_SERVICE,
+  );
+  // A per-call AppView override bypasses the proxy, which always uses the module apiService
+  const proxyRoute = computed(() =>
+    typeof config?.proxy === "object" && !toValue(options.apiService)
+      ? config.proxy.quotesRoute
+      : undefined,
+  );
+
+  // Site-wide moderation from the module config, extended per call
+  const moderationOptions = computed(() =>
+    mergeModerationOptions(config, {
+      labelActions: toValue(options.labelActions),
+      mutedDids: toValue(options.mutedDids),
+      mutedWords: toValue(options.mutedWords),
+    }),
+  );
+
+  const { items, ...list } = usePagedList<FlattenedComment>({
+    source: () => (identifier.value ? `${apiService.value}|${identifier.value}` : ""),
+    fetchPage: (cursor, signal) => {
+      const page = proxyRoute.value
+        ? $fetch<BlueskyQuotesPage>(proxyRoute.value, {
+            query: { uri: identifier.value, cursor, limit: options.limit },
+            signal,
+          })
+        : fetchBlueskyQuotes(identifier.value, {
+            apiService: apiService.value,
+            cursor,
+            limit: options.limit,
+            signal,
+          });
+      return page.then(({ quotes, cursor }) => ({ items: quotes, cursor }));
+    },
+    itemKey: (quote) => quote.uri,
+    fallbackError: "Failed to load quotes",
+  });
+
+  const moderated = computed(() => applyModeration(items.value, moderationOptions.value));
+
+  return {
+    quotes: computed(() => moderated.value.comments),
+    hiddenCount: computed(() => moderated.value.hiddenCount),
+    ...list,
+  };
+}
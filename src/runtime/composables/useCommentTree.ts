@@ -0,0 +1,231 @@
+import {
+  computed,
+  nextTick,
+  onBeforeUnmount,
+  ref,
+  shallowRef,
+  toValue,
+  watch,
+  type ComputedRef,
+  type MaybeRefOrGetter,
+} from "vue";
+import type {
+  CommentCollapseState,
+  CommentPagination,
+  CommentTreeRow,
+  CommentWindow,
+  FlattenedComment,
+} from "../types";
+
+import { flattenCommentTree } from "./commentTree.logic";
+import { getRenderWindow } from "./commentWindow.logic";
+
+/**
+ * Collapse state for comment threads, for custom UIs
+ */
+export function useCommentCollapse(): CommentCollapseState {
+  const collapsed = ref(new Set<string>());
+
+  const isCollapsed = (comment: FlattenedComment) => collapsed.value.has(comment.uri);
+  const collapse = (comment: FlattenedComment) => {
+    collapsed.value.add(comment.uri);
+  };
+  const expand = (comment: FlattenedComment) => {
+    collapsed.value.delete(comment.uri);
+  };
+
+  return {
+    collapsed,
+    isCollapsed,
+    toggle: (comment) => (isCollapsed(comment) ? expand(comment) : collapse(comment)),
+    collapse,
+    expand,
+    expandAll: () => collapsed.value.clear(),
+  };
+}
+
+/**
+ * "Show more" pagination: the first `limit` comments, then `pageSize` more per "show more"
+ * (all of them without a page size)
+ */
+export function useCommentPagination(
+  comments: MaybeRefOrGetter<FlattenedComment[]>,
+  limit: MaybeRefOrGetter<number>,
+  pageSize?: MaybeRefOrGetter<number | undefined>,
+): CommentPagination {
+  // Comments shown beyond the limit
+  const extra = ref(0);
+
+  const visible = computed(() => toValue(comments).slice(0, toValue(limit) + extra.value));
+  const remaining = computed(() => Math.max(toValue(comments).length - visible.value.length, 0));
+
+  return {
+    visible,
+    hasMore: computed(() => remaining.value > 0),
+    remaining,
+    showMore: () => {
+      const size = toValue(pageSize);
+      extra.value += size && size > 0 ? size : Number.POSITIVE_INFINITY;
+    },
+    reset: () => {
+      extra.value = 0;
+    },
+  };
+}
+
+/**
+ * Windowed rendering of a long list (comment threads or headless tree rows): only the items
+ * around the viewport are rendered, spacers keep the scroll height. Rendered items are measured,
+ * the others use `estimateSize`. Before the first measurement (SSR and hydration),
+ * the first `initialCount` items are rendered.
+ */
+export function useCommentWindow<T>(
+  items: MaybeRefOrGetter<T[]>,
+  options: {
+    getKey: (item: T) => string;
+    estimateSize: (item: T) => number;
+    /** Extra px rendered above and below the viewport */
+    overscan?: number;
+    initialCount?: number;
+    enabled?: MaybeRefOrGetter<boolean>;
+  },
+): CommentWindow<T> {
+  const container = ref<HTMLElement | null>(null);
+  const sizes = shallowRef(new Map<string, number>());
+  // Viewport relative to the top of the container, null until measured in the browser
+  const viewport = ref<{ top: number; bottom: number } | null>(null);
+
+  const itemSizes = computed(() =>
+    toValue(items).map(
+      (item) => sizes.value.get(options.getKey(item)) ?? options.estimateSize(item),
+    ),
+  );
+
+  const range = computed(() => {
+    const list = toValue(items);
+    if (toValue(options.enabled) === false) {
+      return { start: 0, end: list.length, before: 0, after: 0 };
+    }
+    if (!viewport.value) {
+      const end = Math.min(options.initialCount ?? 10, list.length);
+      const after = itemSizes.value.slice(end).reduce((sum, size) => sum + size, 0);
+      return { start: 0, end, before: 0, after };
+    }
+    const overscan = options.overscan ?? 1000;
+    return getRenderWindow(
+      itemSizes.value,
+      viewport.value.top - overscan,
+      viewport.value.bottom + overscan,
+    );
+  });
+
+  function update() {
+    if (!container.value) return;
+    const top = -container.value.getBoundingClientRect().top;
+    viewport.value = { top, bottom: top + window.innerHeight };
+  }
+
+  let frame = 0;
+  const scheduleUpdate = () => {
+    frame ||= requestAnimationFrame(() => {
+      frame = 0;
+      update();
+    });
+  };
+
+  async function scrollToIndex(index: number) {
+    if (!container.value || toValue(options.enabled) === false) return;
+    const offset = itemSizes.value.slice(0, index).reduce((sum, size) => sum + size, 0);
+    const top = container.value.getBoundingClientRect().top + window.scrollY + offset;
+    window.scrollTo({ top, behavior: "instant" });
+    // Render the item now, without waiting for the scroll event
+    viewport.value = { top: offset, bottom: offset + window.innerHeight };
+    await nextTick();
+  }
+
+  const elements = new Map<string, Element>();
+  const keys = new WeakMap<Element, string>();
+  let observer: ResizeObserver | undefined;
+
+  function measure(key: string, el: unknown) {
+    if (toValue(options.enabled) === false) return;
+    const previous = elements.get(key);
+    if (previous === el) return;
+    if (previous) observer?.unobserve(previous);
+    if (!(el instanceof HTMLElement)) {
+      elements.delete(key);
+      return;
+    }
+
+    observer ??= new ResizeObserver((entries) => {
+      const next = new Map(sizes.value);
+      for (const entry of entries) {
+        const entryKey = keys.get(entry.target);
+        if (entryKey) next.set(entryKey, (entry.target as HTMLElement).offsetHeight);
+      }
+      sizes.value = next;
+    });
+    elements.set(key, el);
+    keys.set(el, key);
+    observer.observe(el);
+  }
+
+  // Listen while the container is rendered (it appears once the comments have loaded)
+  watch(
+    container,
+    (el, _, onCleanup) => {
+      if (!el || toValue(options.enabled) === false) return;
+      update();
+      window.addEventListener("scroll", scheduleUpdate, { passive: true });
+      window.addEventListener("resize", scheduleUpdate);
+      onCleanup(() => {
+        window.removeEventListener("scroll", scheduleUpdate);
+        window.removeEventListener("resize", scheduleUpdate);
+      });
+    },
+    { flush: "post" },
+  );
+
+  onBeforeUnmount(() => {
+    cancelAnimationFrame(frame);
+    observer?.disconnect();
+  });
+
+  return {
+    container,
+    visible: computed(() =>
+      toValue(items)
+        .slice(range.value.start, range.value.end)
+        .map((item, offset) => ({ item, index: range.value.start + offset })),
+    ),
+    before: computed(() => range.value.before),
+    after: computed(() => range.value.after),
+    measure,
+    scrollToIndex,
+  };
+}
+
+/**
+ * Headless comment tree: paginated top-level comments walked into flat render rows,
+ * with collapse state. Render `rows` with your own components, indenting by `row.level`.
+ */
+export function useCommentTree(
+  comments: MaybeRefOrGetter<FlattenedComment[]>,
+  options: {
+    limit?: MaybeRefOrGetter<number>;
+    pageSize?: MaybeRefOrGetter<number | undefined>;
+  } = {},
+): CommentCollapseState & CommentPagination & { rows: ComputedRef<CommentTreeRow[]> } {
+  const collapse = useCommentCollapse();
+  const pagination = useCommentPagination(
+    comments,
+    () => toValue(options.limit) ?? Number.POSITIVE_INFINITY,
+    options.pageSize,
+  );
+
+  return {
+    ...collapse,
+    ...pagination,
+    rows: computed(() => flattenCommentTree(pagination.visible.value, collapse.isCollapsed)),
+  };
+}
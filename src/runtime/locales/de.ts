@@ -0,0 +1,91 @@
+import type { BlueskyMessages } from "../types";
+
+export const de: BlueskyMessages = {
+  comments: "Kommentare",
+  sortBy: "Sortieren nach",
+  sortTop: "Beliebt",
+  sortNewest: "Neueste",
+  sortOldest: "Älteste",
+  sortControversial: "Meiste Antworten",
+  replyCta: "Antworte {link} auf Bluesky, um mitzudiskutieren.",
+  replyCtaLink: "hier",
+  repliesDisabled: "Antworten auf diesen Beitrag sind deaktiviert.",
+  repliesLimited: "Antworten sind beschränkt auf {rules}.",
+  replyRuleMention: "im Beitrag erwähnte Personen",
+  replyRuleFollowing: "Personen, denen der Autor folgt",
+  replyRuleFollowers: "Follower des Autors",
+  replyRuleList: "Mitglieder von {lists}",
+  replyRuleAnyList: "Mitglieder ausgewählter Listen",
+  viewOnBluesky: "Auf Bluesky ansehen",
+  loading: "Kommentare werden geladen …",
+  tryAgain: "Erneut versuchen",
+  noPost: "Keine URL oder URI eines Bluesky-Beitrags angegeben",
+  empty: "Noch keine Kommentare. Schreib die erste Antwort!",
+  moreComments: { one: "{count} weiterer Kommentar", other: "{count} weitere Kommentare" },
+  hiddenReplies: { one: "{count} Antwort ausgeblendet", other: "{count} Antworten ausgeblendet" },
+  likes: { one: "{count} Like", other: "{count} Likes" },
+  reposts: { one: "{count} Repost", other: "{count} Reposts" },
+  replies: { one: "{count} Antwort", other: "{count} Antworten" },
+  quotes: { one: "{count} Zitat", other: "{count} Zitate" },
+  moreReplies: { one: "{count} weitere Antwort", other: "{count} weitere Antworten" },
+  loadMoreReplies: {
+    one: "{count} weitere Antwort laden",
+    other: "{count} weitere Antworten laden",
+  },
+  continueThread: "Thread fortsetzen",
+  loadingReplies: "Antworten werden geladen …",
+  loadRepliesFailed: "Antworten konnten nicht geladen werden.",
+  hiddenByAuthor: "Vom Autor des Beitrags ausgeblendet",
+  contentWarning: "Inhaltswarnung: {labels}",
+  show: "Anzeigen",
+  openComment: "Diesen Kommentar auf Bluesky öffnen, um zu antworten",
+  expandReplies: "Antworten ausklappen",
+  collapseReplies: "Antworten einklappen",
+  avatarAlt: "Avatar von {name}",
+  openWebsite: "Website von {handle} öffnen",
+  authorBadge: "Autor",
+  domainBadge: "Verifizierte Domain",
+  domainBadgeTitle: "{handle} ist über die eigene Domain verifiziert",
+  image: "Bild",
+  closeImage: "Schließen",
+  previousImage: "Vorheriges Bild",
+  nextImage: "Nächstes Bild",
+  watchVideo: "Video auf Bluesky ansehen",
+  watchVideoWithAlt: "Video auf Bluesky ansehen: {alt}",
+  quoteBlocked: "Der zitierte Beitrag stammt von einem blockierten Konto",
+  quoteNotFound: "Der zitierte Beitrag wurde gelöscht",
+  quoteDetached: "Der zitierte Beitrag wurde von seinem Autor entfernt",
+  quoteUnavailable: "Der zitierte Inhalt ist hier nicht verfügbar",
+  notDiscovered: "Noch kein Bluesky-Beitrag verlinkt auf diese Seite.",
+  repliesToPost: "Antworten auf Beitrag {index}",
+  sourceFailed: "Die Antworten auf {post} konnten nicht geladen werden.",
+  quotesTab: "Zitate",
+  noQuotes: "Noch keine Zitate.",
+  moreQuotes: "Weitere Zitate laden",
+  loadQuotesFailed: "Zitate konnten nicht geladen werden.",
+  likedBy: "Gefällt {names}",
+  repostedBy: "Geteilt von {names}",
+  others: { one: "{count} weiteren Person", other: "{count} weiteren Personen" },
+  likedByHeading: "Gefällt",
+  repostedByHeading: "Geteilt von",
+  loadMore: "Mehr laden",
+  close: "Schließen",
+  loadEngagementFailed: "Die Liste konnte nicht geladen werden.",
+  newComments: { one: "{count} neuer Kommentar", other: "{count} neue Kommentare" },
+  signIn: "Mit Bluesky anmelden",
+  handleLabel: "Bluesky-Handle",
+  handlePlaceholder: "du.bsky.social",
+  signedInAs: "Angemeldet als {handle}",
+  signOut: "Abmelden",
+  signInFailed: "Anmeldung fehlgeschlagen: {error}",
+  replyPlaceholder: "Antwort schreiben …",
+  reply: "Antworten",
+  sendReply: "Antworten",
+  sendingReply: "Wird gesendet …",
+  cancel: "Abbrechen",
+  replyFailed: "Deine Antwort konnte nicht gesendet werden. Bitte versuche es erneut.",
+  like: "Gefällt mir",
+  unlike: "Gefällt mir nicht mehr",
+  likeFailed: "Das „Gefällt mir“ konnte nicht aktualisiert werden.",
+  charactersLeft: { one: "Noch {count} Zeichen", other: "Noch {count} Zeichen" },
+};
@@ -0,0 +1,88 @@
+import type { BlueskyMessages } from "../types";
+
+export const en: BlueskyMessages = {
+  comments: "Comments",
+  sortBy: "Sort by",
+  sortTop: "Top",
+  sortNewest: "Newest",
+  sortOldest: "Oldest",
+  sortControversial: "Most replies",
+  replyCta: "Reply on Bluesky {link} to join the conversation.",
+  replyCtaLink: "here",
+  repliesDisabled: "Replies to this post are disabled.",
+  repliesLimited: "Replies are limited to {rules}.",
+  replyRuleMention: "people mentioned in the post",
+  replyRuleFollowing: "people followed by the author",
+  replyRuleFollowers: "the author's followers",
+  replyRuleList: "members of {lists}",
+  replyRuleAnyList: "members of selected lists",
+  viewOnBluesky: "View on Bluesky",
+  loading: "Loading comments...",
+  tryAgain: "Try again",
+  noPost: "No Bluesky post URL or URI provided",
+  empty: "No comments yet. Be the first to reply!",
+  moreComments: { one: "{count} more comment", other: "{count} more comments" },
+  hiddenReplies: { one: "{count} reply hidden", other: "{count} replies hidden" },
+  likes: { one: "{count} like", other: "{count} likes" },
+  reposts: { one: "{count} repost", other: "{count} reposts" },
+  replies: { one: "{count} reply", other: "{count} replies" },
+  quotes: { one: "{count} quote", other: "{count} quotes" },
+  moreReplies: { one: "{count} more reply", other: "{count} more replies" },
+  loadMoreReplies: { one: "Load {count} more reply", other: "Load {count} more replies" },
+  continueThread: "Continue this thread",
+  loadingReplies: "Loading replies...",
+  loadRepliesFailed: "Couldn't load replies.",
+  hiddenByAuthor: "Hidden by the post author",
+  contentWarning: "Content warning: {labels}",
+  show: "Show",
+  openComment: "Open this comment on Bluesky to reply",
+  expandReplies: "Expand replies",
+  collapseReplies: "Collapse replies",
+  avatarAlt: "{name}'s avatar",
+  openWebsite: "Open website of {handle}",
+  authorBadge: "Author",
+  domainBadge: "Verified domain",
+  domainBadgeTitle: "{handle} is verified by its own domain",
+  image: "Image",
+  closeImage: "Close",
+  previousImage: "Previous image",
+  nextImage: "Next image",
+  watchVideo: "Watch video on Bluesky",
+  watchVideoWithAlt: "Watch video on Bluesky: {alt}",
+  quoteBlocked: "Quoted post is from a blocked account",
+  quoteNotFound: "Quoted post was deleted",
+  quoteDetached: "Quoted post was removed by its author",
+  quoteUnavailable: "Quoted content is not available here",
+  notDiscovered: "No Bluesky post links to this page yet.",
+  repliesToPost: "Replies to post {index}",
+  sourceFailed: "Couldn't load the replies to {post}.",
+  quotesTab: "Quotes",
+  noQuotes: "No quotes yet.",
+  moreQuotes: "Load more quotes",
+  loadQuotesFailed: "Couldn't load quotes.",
+  likedBy: "Liked by {names}",
+  repostedBy: "Reposted by {names}",
+  others: { one: "{count} other", other: "{count} others" },
+  likedByHeading: "Liked by",
+  repostedByHeading: "Reposted by",
+  loadMore: "Load more",
+  close: "Close",
+  loadEngagementFailed: "Couldn't load the list.",
+  newComments: { one: "{count} new comment", other: "{count} new comments" },
+  signIn: "Sign in with Bluesky",
+  handleLabel: "Bluesky handle",
+  handlePlaceholder: "you.bsky.social",
+  signedInAs: "Signed in as {handle}",
+  signOut: "Sign out",
+  signInFailed: "Couldn't sign in: {error}",
+  replyPlaceholder: "Write a reply…",
+  reply: "Reply",
+  sendReply: "Reply",
+  sendingReply: "Posting…",
+  cancel: "Cancel",
+  replyFailed: "Couldn't post your reply. Please try again.",
+  like: "Like",
+  unlike: "Unlike",
+  likeFailed: "Couldn't update the like.",
+  charactersLeft: { one: "{count} character left", other: "{count} characters left" },
+};
@@ -0,0 +1,12 @@
+import type { BlueskyMessages } from "../types";
+import { de } from "./de";
+import { en } from "./en";
+import { ja } from "./ja";
+import { pl } from "./pl";
+
+/**
+ * Built-in message catalogues, keyed by language code
+ */
+export const BUILT_IN_MESSAGES: Record<string, BlueskyMessages> = { en, de, pl, ja };
+
+export const DEFAULT_LOCALE = "en";
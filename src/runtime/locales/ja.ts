@@ -0,0 +1,88 @@
+import type { BlueskyMessages } from "../types";
+
+export const ja: BlueskyMessages = {
+  comments: "コメント",
+  sortBy: "並べ替え",
+  sortTop: "人気順",
+  sortNewest: "新しい順",
+  sortOldest: "古い順",
+  sortControversial: "返信が多い順",
+  replyCta: "{link}からBlueskyで返信して会話に参加しましょう。",
+  replyCtaLink: "こちら",
+  repliesDisabled: "この投稿への返信は無効になっています。",
+  repliesLimited: "返信できるのは{rules}のみです。",
+  replyRuleMention: "投稿でメンションされたユーザー",
+  replyRuleFollowing: "投稿者がフォローしているユーザー",
+  replyRuleFollowers: "投稿者のフォロワー",
+  replyRuleList: "{lists}のメンバー",
+  replyRuleAnyList: "選択されたリストのメンバー",
+  viewOnBluesky: "Blueskyで見る",
+  loading: "コメントを読み込み中…",
+  tryAgain: "再試行",
+  noPost: "Blueskyの投稿URLまたはURIが指定されていません",
+  empty: "まだコメントはありません。最初に返信しましょう！",
+  moreComments: { other: "さらに{count}件のコメント" },
+  hiddenReplies: { other: "{count}件の返信を非表示にしました" },
+  likes: { other: "{count}件のいいね" },
+  reposts: { other: "{count}件のリポスト" },
+  replies: { other: "{count}件の返信" },
+  quotes: { other: "{count}件の引用" },
+  moreReplies: { other: "さらに{count}件の返信" },
+  loadMoreReplies: { other: "さらに{count}件の返信を読み込む" },
+  continueThread: "スレッドの続きを見る",
+  loadingReplies: "返信を読み込み中…",
+  loadRepliesFailed: "返信を読み込めませんでした。",
+  hiddenByAuthor: "投稿者によって非表示にされています",
+  contentWarning: "コンテンツの警告: {labels}",
+  show: "表示",
+  openComment: "Blueskyでこのコメントを開いて返信",
+  expandReplies: "返信を展開",
+  collapseReplies: "返信を折りたたむ",
+  avatarAlt: "{name}のアバター",
+  openWebsite: "{handle}のウェブサイトを開く",
+  authorBadge: "投稿者",
+  domainBadge: "認証済みドメイン",
+  domainBadgeTitle: "{handle}は独自ドメインで認証されています",
+  image: "画像",
+  closeImage: "閉じる",
+  previousImage: "前の画像",
+  nextImage: "次の画像",
+  watchVideo: "Blueskyで動画を見る",
+  watchVideoWithAlt: "Blueskyで動画を見る: {alt}",
+  quoteBlocked: "引用された投稿はブロック中のアカウントのものです",
+  quoteNotFound: "引用された投稿は削除されました",
+  quoteDetached: "引用された投稿は投稿者によって外されました",
+  quoteUnavailable: "引用されたコンテンツはここでは表示できません",
+  notDiscovered: "このページにリンクしているBlueskyの投稿はまだありません。",
+  repliesToPost: "投稿{index}への返信",
+  sourceFailed: "{post} への返信を読み込めませんでした。",
+  quotesTab: "引用",
+  noQuotes: "まだ引用はありません。",
+  moreQuotes: "さらに引用を読み込む",
+  loadQuotesFailed: "引用を読み込めませんでした。",
+  likedBy: "{names}がいいねしました",
+  repostedBy: "{names}がリポストしました",
+  others: { other: "他{count}人" },
+  likedByHeading: "いいねしたユーザー",
+  repostedByHeading: "リポストしたユーザー",
+  loadMore: "さらに読み込む",
+  close: "閉じる",
+  loadEngagementFailed: "リストを読み込めませんでした。",
+  newComments: { other: "{count}件の新しいコメント" },
+  signIn: "Blueskyでサインイン",
+  handleLabel: "Blueskyのハンドル",
+  handlePlaceholder: "you.bsky.social",
+  signedInAs: "{handle}としてサインイン中",
+  signOut: "サインアウト",
+  signInFailed: "サインインできませんでした: {error}",
+  replyPlaceholder: "返信を書く…",
+  reply: "返信",
+  sendReply: "返信する",
+  sendingReply: "送信中…",
+  cancel: "キャンセル",
+  replyFailed: "返信を投稿できませんでした。もう一度お試しください。",
+  like: "いいね",
+  unlike: "いいねを取り消す",
+  likeFailed: "いいねを更新できませんでした。",
+  charactersLeft: { other: "残り{count}文字" },
+};
@@ -0,0 +1,143 @@
+import type { BlueskyMessages } from "../types";
+
+export const pl: BlueskyMessages = {
+  comments: "Komentarze",
+  sortBy: "Sortuj",
+  sortTop: "Najpopularniejsze",
+  sortNewest: "Najnowsze",
+  sortOldest: "Najstarsze",
+  sortControversial: "Najwięcej odpowiedzi",
+  replyCta: "Odpowiedz na Bluesky {link}, aby dołączyć do dyskusji.",
+  replyCtaLink: "tutaj",
+  repliesDisabled: "Odpowiedzi na ten wpis są wyłączone.",
+  repliesLimited: "Odpowiadać mogą tylko {rules}.",
+  replyRuleMention: "osoby wspomniane we wpisie",
+  replyRuleFollowing: "osoby obserwowane przez autora",
+  replyRuleFollowers: "obserwujący autora",
+  replyRuleList: "członkowie list {lists}",
+  replyRuleAnyList: "członkowie wybranych list",
+  viewOnBluesky: "Zobacz na Bluesky",
+  loading: "Ładowanie komentarzy...",
+  tryAgain: "Spróbuj ponownie",
+  noPost: "Nie podano adresu URL ani URI wpisu na Bluesky",
+  empty: "Brak komentarzy. Odpowiedz jako pierwszy!",
+  moreComments: {
+    one: "{count} komentarz więcej",
+    few: "{count} komentarze więcej",
+    many: "{count} komentarzy więcej",
+    other: "{count} komentarza więcej",
+  },
+  hiddenReplies: {
+    one: "Ukryto {count} odpowiedź",
+    few: "Ukryto {count} odpowiedzi",
+    many: "Ukryto {count} odpowiedzi",
+    other: "Ukryto {count} odpowiedzi",
+  },
+  likes: {
+    one: "{count} polubienie",
+    few: "{count} polubienia",
+    many: "{count} polubień",
+    other: "{count} polubienia",
+  },
+  reposts: {
+    one: "{count} podanie dalej",
+    few: "{count} podania dalej",
+    many: "{count} podań dalej",
+    other: "{count} podania dalej",
+  },
+  replies: {
+    one: "{count} odpowiedź",
+    few: "{count} odpowiedzi",
+    many: "{count} odpowiedzi",
+    other: "{count} odpowiedzi",
+  },
+  quotes: {
+    one: "{count} cytat",
+    few: "{count} cytaty",
+    many: "{count} cytatów",
+    other: "{count} cytatu",
+  },
+  moreReplies: {
+    one: "{count} odpowiedź więcej",
+    few: "{count} odpowiedzi więcej",
+    many: "{count} odpowiedzi więcej",
+    other: "{count} odpowiedzi więcej",
+  },
+  loadMoreReplies: {
+    one: "Wczytaj {count} odpowiedź więcej",
+    few: "Wczytaj {count} odpowiedzi więcej",
+    many: "Wczytaj {count} odpowiedzi więcej",
+    other: "Wczytaj {count} odpowiedzi więcej",
+  },
+  continueThread: "Kontynuuj wątek",
+  loadingReplies: "Ładowanie odpowiedzi...",
+  loadRepliesFailed: "Nie udało się wczytać odpowiedzi.",
+  hiddenByAuthor: "Ukryte przez autora wpisu",
+  contentWarning: "Ostrzeżenie o treści: {labels}",
+  show: "Pokaż",
+  openComment: "Otwórz ten komentarz na Bluesky, aby odpowiedzieć",
+  expandReplies: "Rozwiń odpowiedzi",
+  collapseReplies: "Zwiń odpowiedzi",
+  avatarAlt: "Awatar {name}",
+  openWebsite: "Otwórz stronę {handle}",
+  authorBadge: "Autor",
+  domainBadge: "Zweryfikowana domena",
+  domainBadgeTitle: "{handle} zweryfikowano przez własną domenę",
+  image: "Obraz",
+  closeImage: "Zamknij",
+  previousImage: "Poprzedni obraz",
+  nextImage: "Następny obraz",
+  watchVideo: "Obejrzyj wideo na Bluesky",
+  watchVideoWithAlt: "Obejrzyj wideo na Bluesky: {alt}",
+  quoteBlocked: "Cytowany wpis pochodzi z zablokowanego konta",
+  quoteNotFound: "Cytowany wpis został usunięty",
+  quoteDetached: "Cytowany wpis został usunięty przez autora",
+  quoteUnavailable: "Cytowana treść jest tu niedostępna",
+  notDiscovered: "Żaden wpis na Bluesky nie linkuje jeszcze do tej strony.",
+  repliesToPost: "Odpowiedzi na wpis {index}",
+  sourceFailed: "Nie udało się wczytać odpowiedzi na {post}.",
+  quotesTab: "Cytaty",
+  noQuotes: "Brak cytatów.",
+  moreQuotes: "Wczytaj więcej cytatów",
+  loadQuotesFailed: "Nie udało się wczytać cytatów.",
+  likedBy: "Polubione przez {names}",
+  repostedBy: "Podane dalej przez {names}",
+  others: {
+    one: "{count} inną osobę",
+    few: "{count} inne osoby",
+    many: "{count} innych osób",
+    other: "{count} innej osoby",
+  },
+  likedByHeading: "Polubione przez",
+  repostedByHeading: "Podane dalej przez",
+  loadMore: "Wczytaj więcej",
+  close: "Zamknij",
+  loadEngagementFailed: "Nie udało się wczytać listy.",
+  newComments: {
+    one: "{count} nowy komentarz",
+    few: "{count} nowe komentarze",
+    many: "{count} nowych komentarzy",
+    other: "{count} nowego komentarza",
+  },
+  signIn: "Zaloguj się przez Bluesky",
+  handleLabel: "Nazwa użytkownika Bluesky",
+  handlePlaceholder: "ty.bsky.social",
+  signedInAs: "Zalogowano jako {handle}",
+  signOut: "Wyloguj się",
+  signInFailed: "Nie udało się zalogować: {error}",
+  replyPlaceholder: "Napisz odpowiedź…",
+  reply: "Odpowiedz",
+  sendReply: "Odpowiedz",
+  sendingReply: "Wysyłanie…",
+  cancel: "Anuluj",
+  replyFailed: "Nie udało się wysłać odpowiedzi. Spróbuj ponownie.",
+  like: "Polub",
+  unlike: "Cofnij polubienie",
+  likeFailed: "Nie udało się zaktualizować polubienia.",
+  charactersLeft: {
+    one: "Pozostał {count} znak",
+    few: "Pozostały {count} znaki",
+    many: "Pozostało {count} znaków",
+    other: "Pozostało {count} znaku",
+  },
+};
@@ -0,0 +1,14 @@
+import type { Plugin } from "#app";
+import { defineNuxtPlugin, useRuntimeConfig } from "#imports";
+import { configureAtproto } from "./composables/atproto";
+
+const plugin: Plugin = defineNuxtPlugin(() => {
+  const config = useRuntimeConfig().public.blueskyComments;
+
+  configureAtproto({
+    source: config?.atprotoSource ?? "bundled",
+    url: config?.atprotoCdnUrl,
+  });
+});
+
+export default plugin;
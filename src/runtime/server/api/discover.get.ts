@@ -0,0 +1,48 @@
+import { defineCachedEventHandler, useRuntimeConfig } from "nitropack/runtime";
+import { createError, getQuery } from "h3";
+import { discoverBlueskyPost } from "../../composables/discover";
+import type { BlueskyProxyOptions } from "../../types";
+import { assertProxiedPage } from "../utils/allowlist";
+
+const proxyOptions = useRuntimeConfig().public.blueskyComments?.proxy as BlueskyProxyOptions;
+
+/**
+ * Find the post linking to a page on the server.
+ * Responds with `{ uri: null }` when no post links to it yet.
+ */
+export default defineCachedEventHandler(
+  async (event) => {
+    const { url, author } = getQuery(event);
+
+    if (typeof url !== "string" || !url) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: "Bad Request",
+        message: "Missing `url` query parameter",
+      });
+    }
+
+    const authorFilter = typeof author === "string" && author ? author : undefined;
+    await assertProxiedPage(event, url, authorFilter);
+
+    const config = useRuntimeConfig(event).public.blueskyComments;
+
+    try {
+      const uri = await discoverBlueskyPost(url, {
+        author: authorFilter,
+        apiService: config?.apiService,
+      });
+      return { uri };
+    } catch (e) {
+      throw createError({
+        statusCode: 502,
+        statusMessage: "Bad Gateway",
+        message: e instanceof Error ? e.message : "Failed to search posts",
+      });
+    }
+  },
+  {
+    name: "bluesky-discover",
+    maxAge: proxyOptions?.maxAge ?? 60,
+  },
+);
@@ -0,0 +1,46 @@
+import { defineCachedEventHandler, useRuntimeConfig } from "nitropack/runtime";
+import { createError, getQuery } from "h3";
+import { fetchBlueskyEngagement } from "../../composables/blueskyEngagement";
+import type { BlueskyProxyOptions } from "../../types";
+import { assertProxiedPost } from "../utils/allowlist";
+
+const proxyOptions = useRuntimeConfig().public.blueskyComments?.proxy as BlueskyProxyOptions;
+
+/**
+ * Fetch a page of the accounts that liked or reposted a post on the server
+ */
+export default defineCachedEventHandler(
+  async (event) => {
+    const { kind, uri, cursor, limit } = getQuery(event);
+
+    if (typeof uri !== "string" || !uri || (kind !== "likes" && kind !== "reposts")) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: "Bad Request",
+        message: "Expected `uri` and `kind` (`likes` or `reposts`) query parameters",
+      });
+    }
+
+    await assertProxiedPost(event, uri);
+
+    const config = useRuntimeConfig(event).public.blueskyComments;
+
+    try {
+      return await fetchBlueskyEngagement(kind, uri, {
+        apiService: config?.apiService,
+        cursor: typeof cursor === "string" && cursor ? cursor : undefined,
+        limit: limit ? Math.min(Math.max(Number(limit) || 25, 1), 100) : undefined,
+      });
+    } catch (e) {
+      throw createError({
+        statusCode: 502,
+        statusMessage: "Bad Gateway",
+        message: e instanceof Error ? e.message : "Failed to fetch accounts",
+      });
+    }
+  },
+  {
+    name: "bluesky-engagement",
+    maxAge: proxyOptions?.maxAge ?? 60,
+  },
+);
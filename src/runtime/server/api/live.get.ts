@@ -0,0 +1,63 @@
+import { useRuntimeConfig } from "nitropack/runtime";
+import { createError, createEventStream, defineEventHandler, getQuery } from "h3";
+import { DEFAULT_JETSTREAM_URL } from "../../composables/live.logic";
+import type { BlueskyProxyOptions } from "../../types";
+import { isProxiedPost } from "../utils/allowlist";
+import { watchReplies } from "../utils/jetstreamRelay";
+
+// More than the posts a page merges into one discussion
+const MAX_WATCHED_POSTS = 25;
+
+const POST_URI = /^at:\/\/[^/]+\/app\.bsky\.feed\.post\/[^/]+$/;
+
+/**
+ * Stream `reply` events for new replies to the posts in `uri` (repeated for several posts).
+ * One Jetstream connection on the server is shared by every reader, who only receives the events
+ * of their thread.
+ */
+export default defineEventHandler(async (event) => {
+  const { uri } = getQuery(event);
+  const requested = [uri]
+    .flat()
+    .filter((value): value is string => typeof value === "string" && POST_URI.test(value))
+    .slice(0, MAX_WATCHED_POSTS);
+
+  if (!requested.length) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: "Bad Request",
+      message: "Missing `uri` query parameter (post AT URI)",
+    });
+  }
+
+  const allowed = await Promise.all(requested.map((root) => isProxiedPost(event, root)));
+  const rootUris = requested.filter((_, index) => allowed[index]);
+  if (!rootUris.length) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: "Forbidden",
+      message: "Not allowed by the proxy `allow` option",
+    });
+  }
+
+  if (typeof globalThis.WebSocket === "undefined") {
+    throw createError({
+      statusCode: 501,
+      statusMessage: "Not Implemented",
+      message: "Relaying Jetstream needs a runtime with WebSocket support (e.g. Node.js 22)",
+    });
+  }
+
+  const proxy = useRuntimeConfig(event).public.blueskyComments?.proxy as BlueskyProxyOptions;
+  const stream = createEventStream(event);
+  const stopWatching = watchReplies(
+    proxy?.jetstreamUrl ?? DEFAULT_JETSTREAM_URL,
+    rootUris,
+    () => void stream.push({ event: "reply", data: "" }),
+  );
+  stream.onClosed(async () => {
+    stopWatching();
+    await stream.close();
+  });
+  return stream.send();
+});
@@ -0,0 +1,15 @@
+import { useRuntimeConfig } from "nitropack/runtime";
+import { createError, defineEventHandler } from "h3";
+
+/**
+ * Serve the OAuth client metadata document at the path of its `client_id`
+ */
+export default defineEventHandler((event) => {
+  const oauth = useRuntimeConfig(event).public.blueskyComments?.oauth;
+
+  if (!oauth || !oauth.clientMetadata) {
+    throw createError({ statusCode: 404, statusMessage: "Not Found" });
+  }
+
+  return oauth.clientMetadata;
+});
@@ -0,0 +1,46 @@
+import { defineCachedEventHandler, useRuntimeConfig } from "nitropack/runtime";
+import { createError, getQuery } from "h3";
+import { fetchBlueskyQuotes } from "../../composables/blueskyQuotes";
+import type { BlueskyProxyOptions } from "../../types";
+import { assertProxiedPost } from "../utils/allowlist";
+
+const proxyOptions = useRuntimeConfig().public.blueskyComments?.proxy as BlueskyProxyOptions;
+
+/**
+ * Fetch a page of quote posts on the server
+ */
+export default defineCachedEventHandler(
+  async (event) => {
+    const { uri, cursor, limit } = getQuery(event);
+
+    if (typeof uri !== "string" || !uri) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: "Bad Request",
+        message: "Missing `uri` query parameter",
+      });
+    }
+
+    await assertProxiedPost(event, uri);
+
+    const config = useRuntimeConfig(event).public.blueskyComments;
+
+    try {
+      return await fetchBlueskyQuotes(uri, {
+        apiService: config?.apiService,
+        cursor: typeof cursor === "string" && cursor ? cursor : undefined,
+        limit: limit ? Math.min(Math.max(Number(limit) || 25, 1), 100) : undefined,
+      });
+    } catch (e) {
+      throw createError({
+        statusCode: 502,
+        statusMessage: "Bad Gateway",
+        message: e instanceof Error ? e.message : "Failed to fetch quotes",
+      });
+    }
+  },
+  {
+    name: "bluesky-quotes",
+    maxAge: proxyOptions?.maxAge ?? 60,
+  },
+);
@@ -0,0 +1,41 @@
+import { defineCachedEventHandler, useRuntimeConfig } from "nitropack/runtime";
+import { createError, getQuery, getRouterParam } from "h3";
+import { fetchBlueskySnapshot } from "../../composables/snapshot";
+import { decodeSnapshotKey, snapshotFileName } from "../../composables/snapshot.logic";
+
+/**
+ * Fetch the thread of a snapshot file while the site is prerendered.
+ * Only registered for the prerender build: the output is written as a static JSON file.
+ * The descriptor comes in the `key` query and must hash to the file name.
+ */
+export default defineCachedEventHandler(
+  async (event) => {
+    const { key } = getQuery(event);
+    const descriptor = typeof key === "string" ? decodeSnapshotKey(key) : null;
+
+    if (!descriptor || snapshotFileName(descriptor) !== getRouterParam(event, "_")) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: "Bad Request",
+        message: "Invalid snapshot key",
+      });
+    }
+
+    const config = useRuntimeConfig(event).public.blueskyComments;
+
+    try {
+      return await fetchBlueskySnapshot(descriptor, { apiService: config?.apiService });
+    } catch (e) {
+      throw createError({
+        statusCode: 502,
+        statusMessage: "Bad Gateway",
+        message: e instanceof Error ? e.message : "Failed to fetch thread",
+      });
+    }
+  },
+  {
+    name: "bluesky-snapshot",
+    // A page and the prerenderer request the same snapshot during one build
+    maxAge: 10 * 60,
+  },
+);
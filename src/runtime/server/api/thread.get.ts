@@ -0,0 +1,49 @@
+import { defineCachedEventHandler, useRuntimeConfig } from "nitropack/runtime";
+import { createError, getQuery } from "h3";
+import { fetchBlueskyThread } from "../../composables/blueskyThread";
+import type { BlueskyProxyOptions } from "../../types";
+import { assertProxiedPost } from "../utils/allowlist";
+
+const proxyOptions = useRuntimeConfig().public.blueskyComments?.proxy as BlueskyProxyOptions;
+
+/**
+ * Fetch and process a post thread on the server.
+ * Responses are cached so popular posts don't hit AppView rate limits.
+ * Live refetches after a Jetstream reply event pass `fresh=true` to skip the cached copy.
+ */
+export default defineCachedEventHandler(
+  async (event) => {
+    const { uri, flatten, depth } = getQuery(event);
+
+    if (typeof uri !== "string" || !uri) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: "Bad Request",
+        message: "Missing `uri` query parameter",
+      });
+    }
+
+    await assertProxiedPost(event, uri);
+
+    const config = useRuntimeConfig(event).public.blueskyComments;
+
+    try {
+      return await fetchBlueskyThread(uri, {
+        apiService: config?.apiService,
+        flattenSameAuthorThreads: flatten !== "false",
+        depth: depth ? Math.min(Math.max(Number(depth) || 1, 1), 1000) : undefined,
+      });
+    } catch (e) {
+      throw createError({
+        statusCode: 502,
+        statusMessage: "Bad Gateway",
+        message: e instanceof Error ? e.message : "Failed to fetch thread",
+      });
+    }
+  },
+  {
+    name: "bluesky-thread",
+    maxAge: proxyOptions?.maxAge ?? 60,
+    shouldBypassCache: (event) => getQuery(event).fresh === "true",
+  },
+);
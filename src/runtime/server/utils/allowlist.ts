@@ -0,0 +1,52 @@
+import { useRuntimeConfig } from "nitropack/runtime";
+import { createError, type H3Event } from "h3";
+import { isAllowedPage, isAllowedPost } from "../../composables/allowlist.logic";
+import { DEFAULT_API_SERVICE, getAtpAgent } from "../../composables/atproto";
+import { resolveHandleCached } from "../../composables/cache";
+import type { BlueskyProxyOptions } from "../../types";
+
+function getAllowlist(event: H3Event) {
+  const config = useRuntimeConfig(event).public.blueskyComments;
+  const allow = (config?.proxy as BlueskyProxyOptions | undefined)?.allow;
+  const resolveHandle = (handle: string) =>
+    resolveHandleCached(handle, async (signal) => {
+      const agent = await getAtpAgent(config?.apiService ?? DEFAULT_API_SERVICE);
+      const { data } = await agent.resolveHandle({ handle }, { signal });
+      return data.did;
+    });
+  return { allow, resolveHandle };
+}
+
+const forbidden = () =>
+  createError({
+    statusCode: 403,
+    statusMessage: "Forbidden",
+    message: "Not allowed by the proxy `allow` option",
+  });
+
+/**
+ * Whether the proxy `allow` option lets the routes fetch a post (web URL or AT URI)
+ */
+export function isProxiedPost(event: H3Event, input: string): Promise<boolean> {
+  const { allow, resolveHandle } = getAllowlist(event);
+  return isAllowedPost(input, allow, resolveHandle);
+}
+
+/**
+ * Reject posts left out by the proxy `allow` option
+ */
+export async function assertProxiedPost(event: H3Event, input: string): Promise<void> {
+  if (!(await isProxiedPost(event, input))) throw forbidden();
+}
+
+/**
+ * Reject page lookups left out by the proxy `allow` option
+ */
+export async function assertProxiedPage(
+  event: H3Event,
+  pageUrl: string,
+  author: string | undefined,
+): Promise<void> {
+  const { allow, resolveHandle } = getAllowlist(event);
+  if (!(await isAllowedPage(pageUrl, author, allow, resolveHandle))) throw forbidden();
+}
@@ -0,0 +1,39 @@
+import { subscribeJetstream } from "../../composables/liveUpdates";
+
+const listeners = new Map<string, Set<() => void>>();
+let unsubscribe: (() => void) | undefined;
+
+/**
+ * Call `onReply` when a reply to one of `rootUris` is created.
+ * All watchers share one Jetstream connection, opened with the first watcher and closed with the last.
+ * Returns a function that stops watching.
+ */
+export function watchReplies(url: string, rootUris: string[], onReply: () => void): () => void {
+  for (const uri of rootUris) {
+    let watchers = listeners.get(uri);
+    if (!watchers) {
+      watchers = new Set();
+      listeners.set(uri, watchers);
+    }
+    watchers.add(onReply);
+  }
+
+  unsubscribe ??= subscribeJetstream({
+    url,
+    onReply: (rootUri) => {
+      for (const listener of listeners.get(rootUri) ?? []) listener();
+    },
+  });
+
+  return () => {
+    for (const uri of rootUris) {
+      const watchers = listeners.get(uri);
+      watchers?.delete(onReply);
+      if (watchers?.size === 0) listeners.delete(uri);
+    }
+    if (listeners.size === 0) {
+      unsubscribe?.();
+      unsubscribe = undefined;
+    }
+  };
+}
@@ -1,42 +1,753 @@
 import type { AppBskyFeedDefs, AppBskyFeedPost, AppBskyActorDefs } from "@atproto/api";
-import type { ComputedRef, Ref } from "vue";
+import type { OAuthClientMetadataInput } from "@atproto/oauth-client-browser";
+import type { ComputedRef, MaybeRefOrGetter, Ref } from "vue";
+
+/**
+ * Where @atproto/api is loaded from in the browser
+ * - `bundled`: lazy-loaded local chunk built from the installed package
+ * - `esm.sh`: imported from esm.sh, pinned to the installed package version
+ * - `cdn`: imported from a custom URL (`atprotoCdnUrl`)
+ */
+export type AtprotoSource = "bundled" | "esm.sh" | "cdn";
+
+/**
+ * Options for the cached server proxy route
+ */
+export interface BlueskyProxyOptions {
+  /**
+   * Route of the thread proxy handler
+   * @default '/api/_bluesky/thread'
+   */
+  route?: string;
+  /**
+   * Cache TTL for thread responses in seconds
+   * @default 60
+   */
+  maxAge?: number;
+  /**
+   * Route of the post discovery handler (see `discover`)
+   * @default '/api/_bluesky/discover'
+   */
+  discoverRoute?: string;
+  /**
+   * Route of the quote posts handler (see `quotes`)
+   * @default '/api/_bluesky/quotes'
+   */
+  quotesRoute?: string;
+  /**
+   * Route of the likers / reposters handler (see `facepile`)
+   * @default '/api/_bluesky/engagement'
+   */
+  engagementRoute?: string;
+  /**
+   * Route streaming new replies for `live: 'jetstream'`
+   * @default '/api/_bluesky/live'
+   */
+  liveRoute?: string;
+  /**
+   * Posts the routes may fetch, since they are public: DIDs or handles of their authors,
+   * or URL prefixes (matched against post URLs, AT URIs and discovered page URLs).
+   * Every post is allowed when unset.
+   * @example ['did:plc:abc123', 'alice.bsky.social', 'https://example.com/blog/']
+   */
+  allow?: string[];
+  /**
+   * Jetstream subscribe endpoint the server relays replies from
+   * @default 'wss://jetstream2.us-east.bsky.network/subscribe'
+   */
+  jetstreamUrl?: string;
+}
+
+/**
+ * Options for build-time thread snapshots
+ */
+export interface BlueskySnapshotOptions {
+  /**
+   * Route prefix of the snapshot JSON files
+   * @default '/_bluesky/snapshots'
+   */
+  route?: string;
+  /**
+   * Posts (URLs or AT URIs) to snapshot in addition to the ones rendered by prerendered pages,
+   * e.g. for components that only fetch in the browser
+   */
+  posts?: string[];
+  /**
+   * Fetch the live thread in the browser after showing a snapshot
+   * @default true
+   */
+  revalidate?: boolean;
+}
+
+/**
+ * Where cached threads are kept: `memory` until the page is reloaded,
+ * `localStorage` or `indexedDB` across visits
+ */
+export type CacheStorage = "memory" | "localStorage" | "indexedDB";
+
+/**
+ * Options for caching threads in the browser
+ */
+export interface BlueskyCacheOptions {
+  /**
+   * @default 'memory'
+   */
+  storage?: CacheStorage;
+  /**
+   * Seconds a cached thread is shown (while the live thread is fetched) before it expires
+   * @default 86400
+   */
+  ttl?: number;
+  /**
+   * Threads kept at most; the oldest are dropped when a new one is stored
+   * @default 50
+   */
+  maxEntries?: number;
+}
+
+/**
+ * Site-wide defaults for discovering the post of a page
+ */
+export interface BlueskyDiscoverOptions {
+  /**
+   * Only consider posts by this account (handle or DID), usually the site author
+   */
+  author?: string;
+  /**
+   * Origin of canonical page URLs (e.g. https://example.com).
+   * Defaults to the origin of the current request.
+   */
+  siteUrl?: string;
+}
+
+/**
+ * Which page to find the Bluesky post for
+ */
+export interface DiscoverPostOptions {
+  /**
+   * Page URL that the post links to. Defaults to the current route on `siteUrl`.
+   */
+  url?: string;
+  /**
+   * Only consider posts by this account, overrides the module `discover.author`
+   */
+  author?: string;
+}
+
+/**
+ * Options for signing in with Bluesky (atproto OAuth in the browser)
+ */
+export interface BlueskyOAuthOptions {
+  /**
+   * OAuth client metadata. `client_id` must be the https URL of this document; the module serves it
+   * at that path and fills in the defaults for a browser client (DPoP, `none` auth method, `atproto`
+   * scopes). Omit it during local development to use a loopback client on http://127.0.0.1.
+   */
+  clientMetadata?: Partial<OAuthClientMetadataInput> & { client_id: string };
+  /**
+   * Service used to resolve handles when signing in
+   * @default 'https://bsky.social'
+   */
+  handleResolver?: string;
+}
+
+/**
+ * How a moderated comment is displayed
+ * - `hide`: removed together with its replies
+ * - `blur`: content hidden behind a click-to-reveal warning
+ * - `show`: displayed normally
+ */
+export type ModerationAction = "hide" | "blur" | "show";
+
+/**
+ * Moderation options, shared by the module config, composable and component
+ */
+export interface ModerationOptions {
+  /**
+   * Action per label value (e.g. `{ spam: "hide", nudity: "blur" }`),
+   * merged over the built-in defaults
+   */
+  labelActions?: Record<string, ModerationAction>;
+  /**
+   * Account DIDs whose replies are hidden
+   */
+  mutedDids?: string[];
+  /**
+   * Words or phrases; replies containing them are hidden (case-insensitive)
+   */
+  mutedWords?: string[];
+}
+
+/**
+ * Custom badge of an account, e.g. `{ label: "Team", class: "badge-team" }`
+ */
+export interface BlueskyRole {
+  /** Badge text */
+  label: string;
+  /** Extra CSS class on the badge */
+  class?: string;
+}
+
+/**
+ * Badge shown next to a comment author's name
+ * - `author`: wrote the post under discussion
+ * - `role`: has a site-defined role (`roles` option)
+ * - `domain`: uses a custom-domain handle, which Bluesky verifies through DNS or the website
+ */
+export type CommentBadge =
+  | { type: "author" }
+  | { type: "role"; label: string; class?: string }
+  | { type: "domain" };
+
+/**
+ * What to do with replies hidden by the thread author (threadgate `hiddenReplies`)
+ * - `hide`: remove them together with their replies
+ * - `collapse`: keep them behind a click-to-reveal notice
+ * - `show`: ignore the threadgate
+ */
+export type HiddenRepliesMode = "hide" | "collapse" | "show";
+
+/**
+ * Group of accounts allowed to reply by a threadgate
+ */
+export type ReplyGateRule = "mention" | "following" | "followers" | "list";
+
+/**
+ * Reply restrictions of a thread. An empty `allow` list means nobody can reply.
+ */
+export interface ReplyGate {
+  allow: ReplyGateRule[];
+  /** Names of the lists allowed to reply */
+  lists: string[];
+}
+
+/**
+ * Built-in comment sort orders
+ * - `top`: most engagement (likes + replies) first
+ * - `newest` / `oldest`: by creation time
+ * - `controversial`: most replied first (ties: fewer likes first)
+ */
+export type CommentSortOrder = "top" | "newest" | "oldest" | "controversial";
+
+/**
+ * Custom comparator for sorting sibling comments
+ */
+export type CommentComparator = (a: FlattenedComment, b: FlattenedComment) => number;
+
+/**
+ * Message with plural forms, selected with `Intl.PluralRules` from the `count` parameter
+ */
+export type PluralMessage = { other: string } & Partial<Record<Intl.LDMLPluralRule, string>>;
+
+/**
+ * UI message catalogue. `{name}` placeholders are replaced with parameters.
+ */
+export interface BlueskyMessages {
+  comments: string;
+  sortBy: string;
+  sortTop: string;
+  sortNewest: string;
+  sortOldest: string;
+  sortControversial: string;
+  /** `{link}` is rendered as a link with the `replyCtaLink` text */
+  replyCta: string;
+  replyCtaLink: string;
+  repliesDisabled: string;
+  repliesLimited: string;
+  replyRuleMention: string;
+  replyRuleFollowing: string;
+  replyRuleFollowers: string;
+  replyRuleList: string;
+  replyRuleAnyList: string;
+  viewOnBluesky: string;
+  loading: string;
+  tryAgain: string;
+  noPost: string;
+  empty: string;
+  moreComments: PluralMessage;
+  hiddenReplies: PluralMessage;
+  likes: PluralMessage;
+  reposts: PluralMessage;
+  replies: PluralMessage;
+  quotes: PluralMessage;
+  moreReplies: PluralMessage;
+  loadMoreReplies: PluralMessage;
+  continueThread: string;
+  loadingReplies: string;
+  loadRepliesFailed: string;
+  hiddenByAuthor: string;
+  contentWarning: string;
+  show: string;
+  openComment: string;
+  expandReplies: string;
+  collapseReplies: string;
+  avatarAlt: string;
+  openWebsite: string;
+  authorBadge: string;
+  domainBadge: string;
+  domainBadgeTitle: string;
+  image: string;
+  closeImage: string;
+  previousImage: string;
+  nextImage: string;
+  watchVideo: string;
+  watchVideoWithAlt: string;
+  quoteBlocked: string;
+  quoteNotFound: string;
+  quoteDetached: string;
+  quoteUnavailable: string;
+  notDiscovered: string;
+  repliesToPost: string;
+  sourceFailed: string;
+  quotesTab: string;
+  noQuotes: string;
+  moreQuotes: string;
+  loadQuotesFailed: string;
+  /** `{names}` is a list of handles, ending with the `others` count */
+  likedBy: string;
+  repostedBy: string;
+  others: PluralMessage;
+  likedByHeading: string;
+  repostedByHeading: string;
+  loadMore: string;
+  close: string;
+  loadEngagementFailed: string;
+  newComments: PluralMessage;
+  signIn: string;
+  handleLabel: string;
+  handlePlaceholder: string;
+  signedInAs: string;
+  signOut: string;
+  signInFailed: string;
+  replyPlaceholder: string;
+  reply: string;
+  sendReply: string;
+  sendingReply: string;
+  cancel: string;
+  replyFailed: string;
+  like: string;
+  unlike: string;
+  likeFailed: string;
+  charactersLeft: PluralMessage;
+}
+
+/**
+ * Translation and formatting helpers for one locale
+ */
+export interface BlueskyI18n {
+  locale: string;
+  t: (key: keyof BlueskyMessages, params?: Record<string, string | number>) => string;
+  /** Compact number, e.g. 1.2K */
+  formatCount: (count: number) => string;
+  /** Relative time, e.g. "3d ago" */
+  formatRelativeTime: (date: string | Date, now?: Date) => string;
+  /** Conjunction list, e.g. "a, b and c" */
+  formatList: (items: string[]) => string;
+}
 
 /**
  * Module configuration options
  */
-export interface ModuleOptions {
+export interface ModuleOptions extends ModerationOptions {
   /**
-   * Default Bluesky API service URL
+   * Default Bluesky API service URL (AppView).
+   * Can be overridden at runtime with `NUXT_PUBLIC_BLUESKY_COMMENTS_API_SERVICE`.
    * @default 'https://public.api.bsky.app'
    */
   apiService?: string;
+  /**
+   * Loading strategy for @atproto/api in the browser
+   * @default 'bundled'
+   */
+  atprotoSource?: AtprotoSource;
+  /**
+   * ES module URL of @atproto/api, required when `atprotoSource` is `cdn`.
+   * For `esm.sh` it is derived from the installed package version.
+   */
+  atprotoCdnUrl?: string;
+  /**
+   * Register a cached Nitro route that fetches and processes threads on the server.
+   * When enabled, `useBlueskyComments` fetches through it instead of calling the AppView
+   * from the browser.
+   * @default false
+   */
+  proxy?: boolean | BlueskyProxyOptions;
+  /**
+   * UI locale (`en`, `de`, `pl`, `ja` or any locale with custom `messages`).
+   * When unset, the current `@nuxtjs/i18n` locale is used if the module is installed.
+   */
+  locale?: string;
+  /**
+   * Message overrides and additional locales, keyed by locale code
+   */
+  messages?: Record<string, Partial<BlueskyMessages>>;
+  /**
+   * Let readers sign in with Bluesky to like and reply from the page
+   * @default false
+   */
+  oauth?: false | BlueskyOAuthOptions;
+  /**
+   * Defaults for finding the post of a page from its canonical URL (`discover` prop)
+   */
+  discover?: BlueskyDiscoverOptions;
+  /**
+   * Custom badges keyed by DID or handle (e.g. `{ "alice.example.com": "Team" }`)
+   */
+  roles?: Record<string, string | BlueskyRole>;
+  /**
+   * Write the threads of prerendered pages (`nuxi generate`) as static JSON files and render them
+   * before the live thread, so comments show even when the AppView is unreachable
+   * @default false
+   */
+  snapshots?: boolean | BlueskySnapshotOptions;
+  /**
+   * Keep fetched threads in the browser and show them right away on the next mount or visit,
+   * while the live thread is fetched in the background
+   * @default false
+   */
+  cache?: boolean | BlueskyCacheOptions;
+}
+
+/**
+ * How live updates are received: polling the thread, or replies relayed from Jetstream by the
+ * server proxy, refetching when a reply to the root post is created
+ */
+export type LiveMode = "poll" | "jetstream";
+
+/**
+ * Live update settings
+ */
+export interface LiveOptions {
+  /**
+   * @default 'poll'
+   */
+  mode?: LiveMode;
+  /**
+   * Polling interval in milliseconds. Doubles while nothing changes or the page is hidden.
+   * @default 30000
+   */
+  interval?: number;
+  /**
+   * Upper bound of the polling backoff in milliseconds
+   * @default 300000
+   */
+  maxInterval?: number;
+}
+
+/**
+ * schema.org JSON-LD describing the discussion (`structuredData` prop)
+ */
+export interface StructuredDataOptions {
+  /**
+   * Comments included, counted depth-first in display order
+   * @default 20
+   */
+  maxComments?: number;
+}
+
+/**
+ * Options for the useBlueskyComments composable
+ */
+export interface UseBlueskyCommentsOptions {
+  /**
+   * Promote same-author continuation replies to the same level as their parent comment.
+   * Changing it refetches the thread.
+   * @default true
+   */
+  flattenSameAuthorThreads?: MaybeRefOrGetter<boolean | undefined>;
+  /**
+   * Bluesky API service URL (AppView) used for this post.
+   * Falls back to the module `apiService` option. Changing it refetches the thread.
+   */
+  apiService?: MaybeRefOrGetter<string | undefined>;
+  /**
+   * Fetch the thread during SSR and hydrate it from the payload.
+   * Set to false for client-only fetching.
+   * @default true
+   */
+  server?: boolean;
+  /**
+   * Action per label value, merged over the defaults and module config
+   */
+  labelActions?: MaybeRefOrGetter<ModerationOptions["labelActions"]>;
+  /**
+   * Account DIDs whose replies are hidden, added to the module config
+   */
+  mutedDids?: MaybeRefOrGetter<string[] | undefined>;
+  /**
+   * Words or phrases that hide replies, added to the module config
+   */
+  mutedWords?: MaybeRefOrGetter<string[] | undefined>;
+  /**
+   * Handling of replies hidden by the thread author
+   * @default 'hide'
+   */
+  hiddenReplies?: MaybeRefOrGetter<HiddenRepliesMode | undefined>;
+  /**
+   * Reply depth fetched up front. Deeper branches are marked with `unloadedReplyCount`
+   * and loaded with `loadMoreReplies`. Changing it refetches the thread.
+   * @default full thread
+   */
+  depth?: MaybeRefOrGetter<number | undefined>;
+  /**
+   * Sort order applied at every depth. Changing it re-sorts without refetching.
+   * @default 'top'
+   */
+  sort?: MaybeRefOrGetter<CommentSortOrder | CommentComparator | undefined>;
+  /**
+   * Show the post author's own replies first at every depth
+   * @default false
+   */
+  pinAuthorReplies?: MaybeRefOrGetter<boolean | undefined>;
+  /**
+   * Watch the thread for new replies in the browser. `true` polls.
+   * New comments are held until `showNewComments` is called.
+   * @default false
+   */
+  live?: MaybeRefOrGetter<boolean | LiveMode | LiveOptions | undefined>;
+  /**
+   * When no post is given, find the post linking to the page with `app.bsky.feed.searchPosts`.
+   * `true` looks up the current route's canonical URL.
+   * @default false
+   */
+  discover?: MaybeRefOrGetter<boolean | DiscoverPostOptions | undefined>;
+  /**
+   * With several posts, list comments post by post (in the order passed) instead of interleaving them
+   * @default false
+   */
+  groupBySource?: MaybeRefOrGetter<boolean | undefined>;
+  /**
+   * Custom badges keyed by DID or handle, merged over the module config
+   */
+  roles?: MaybeRefOrGetter<Record<string, string | BlueskyRole> | undefined>;
+  /**
+   * Badge the replies of the post author
+   * @default true
+   */
+  authorBadge?: MaybeRefOrGetter<boolean | undefined>;
+  /**
+   * Badge accounts with a custom-domain handle
+   * @default false
+   */
+  domainBadge?: MaybeRefOrGetter<boolean | undefined>;
+  /**
+   * Show a cached thread while the live one is fetched, overrides the module `cache` option
+   */
+  cache?: MaybeRefOrGetter<boolean | BlueskyCacheOptions | undefined>;
 }
 
 /**
  * Props for the BlueskyComments component
  */
-export interface BlueskyCommentsProps {
+export interface BlueskyCommentsProps extends ModerationOptions {
   /**
-   * AT Protocol URI of the post (e.g., at://did:plc:.../app.bsky.feed.post/...)
+   * AT Protocol URI of the post (e.g., at://did:plc:.../app.bsky.feed.post/...).
+   * Several posts are merged into one discussion.
    */
-  uri?: string;
+  uri?: string | string[];
   /**
    * Bluesky web URL of the post (e.g., https://bsky.app/profile/user.bsky.social/post/abc123)
-   * Will be converted to URI internally
+   * Will be converted to URI internally. Several posts are merged into one discussion.
    */
-  url?: string;
+  url?: string | string[];
   /**
    * Maximum number of top-level comments to show initially
    * @default 5
    */
   limit?: number;
+  /**
+   * Top-level comments added by each "show more", all remaining ones when unset
+   */
+  pageSize?: number;
+  /**
+   * Replies shown under each comment before a "N more replies" button that shows as many more,
+   * at every depth. All replies are shown when unset.
+   */
+  replyLimit?: number;
+  /**
+   * Render only the comment threads near the viewport. During SSR and hydration the first
+   * 10 threads are rendered.
+   * @default false
+   */
+  virtualize?: boolean;
   /**
    * Render same-author continuation replies at the same level (no nested wrapping).
    * @default true
    */
   flattenSameAuthorThreads?: boolean;
+  /**
+   * Bluesky API service URL (AppView) used for this post.
+   * Falls back to the module `apiService` option.
+   */
+  apiService?: string;
+  /**
+   * Fetch the thread during SSR (set to false for client-only fetching)
+   * @default true
+   */
+  server?: boolean;
+  /**
+   * Handling of replies hidden by the thread author
+   * @default 'hide'
+   */
+  hiddenReplies?: HiddenRepliesMode;
+  /**
+   * Initial sort order
+   * @default 'top'
+   */
+  sort?: CommentSortOrder;
+  /**
+   * Show the post author's own replies first
+   * @default false
+   */
+  pinAuthorReplies?: boolean;
+  /**
+   * Show a sort dropdown in the header
+   * @default false
+   */
+  showSortSelect?: boolean;
+  /**
+   * UI locale, overrides the module `locale` option and `@nuxtjs/i18n`
+   */
+  locale?: string;
+  /**
+   * Reply depth fetched up front; deeper branches load on demand
+   */
+  depth?: number;
+  /**
+   * Watch for new replies and announce them in a "new comments" banner
+   * @default false
+   */
+  live?: boolean | LiveMode | LiveOptions;
+  /**
+   * Find the post linking to this page instead of passing `uri` / `url`
+   * @default false
+   */
+  discover?: boolean | DiscoverPostOptions;
+  /**
+   * With several posts, list comments post by post under a label
+   * @default false
+   */
+  groupBySource?: boolean;
+  /**
+   * Show the posts quoting the post in a "Quotes" tab, loaded when opened
+   * @default false
+   */
+  quotes?: boolean;
+  /**
+   * Show who liked and reposted the post ("Liked by @alice, @bob and 240 others"),
+   * fetched once the stats bar scrolls into view
+   * @default false
+   */
+  facepile?: boolean;
+  /**
+   * Avatars shown per facepile
+   * @default 5
+   */
+  maxAvatars?: number;
+  /**
+   * Custom badges keyed by DID or handle, merged over the module option
+   */
+  roles?: Record<string, string | BlueskyRole>;
+  /**
+   * Show an "Author" badge on the replies of the post author
+   * @default true
+   */
+  authorBadge?: boolean;
+  /**
+   * Show a badge on accounts with a custom-domain handle
+   * @default false
+   */
+  domainBadge?: boolean;
+  /**
+   * Add schema.org `DiscussionForumPosting` JSON-LD with the post and its comments to the page head,
+   * rendered during SSR so crawlers see it
+   * @default false
+   */
+  structuredData?: boolean | StructuredDataOptions;
+  /**
+   * Show a cached thread while the live one is fetched, overrides the module `cache` option
+   */
+  cache?: boolean | BlueskyCacheOptions;
 }
 
+/**
+ * Part of a comment's text, built from the record's rich text facets
+ */
+export type RichTextSegment =
+  | { type: "text"; text: string }
+  | { type: "link"; text: string; uri: string }
+  | { type: "mention"; text: string; did: string }
+  | { type: "tag"; text: string; tag: string };
+
+/**
+ * Image attached to a comment
+ */
+export interface EmbedImage {
+  /** Thumbnail URL */
+  thumb: string;
+  /** Full size image URL */
+  fullsize: string;
+  /** Alt text */
+  alt: string;
+  aspectRatio?: { width: number; height: number };
+}
+
+/**
+ * External link card attached to a comment
+ */
+export interface EmbedExternal {
+  uri: string;
+  title: string;
+  description: string;
+  /** Preview image URL */
+  thumb?: string;
+}
+
+/**
+ * Video attached to a comment (rendered as a thumbnail linking to Bluesky)
+ */
+export interface EmbedVideo {
+  /** HLS playlist URL */
+  playlist: string;
+  /** Thumbnail URL */
+  thumbnail?: string;
+  alt?: string;
+  aspectRatio?: { width: number; height: number };
+}
+
+/**
+ * Quoted record. Blocked, deleted, detached or unsupported records are "unavailable".
+ */
+export type EmbedRecord =
+  | {
+      type: "post";
+      uri: string;
+      author: FlattenedComment["author"];
+      text: string;
+      createdAt: string;
+    }
+  | {
+      type: "unavailable";
+      uri: string;
+      reason: "blocked" | "notFound" | "detached" | "unsupported";
+    };
+
+/**
+ * Media part of an embed
+ */
+export type CommentEmbedMedia =
+  | { type: "images"; images: EmbedImage[] }
+  | { type: "external"; external: EmbedExternal }
+  | { type: "video"; video: EmbedVideo };
+
+/**
+ * Embed attached to a comment
+ */
+export type CommentEmbed =
+  | CommentEmbedMedia
+  | { type: "record"; record: EmbedRecord }
+  | { type: "recordWithMedia"; record: EmbedRecord; media: CommentEmbedMedia };
+
 /**
  * Represents a flattened comment for display
  */
@@ -54,6 +765,10 @@ export interface FlattenedComment {
   };
   /** Comment text content */
   text: string;
+  /** Comment text split into plain text, link, mention and hashtag segments */
+  segments: RichTextSegment[];
+  /** Attached images, link card, quoted post or video */
+  embed?: CommentEmbed;
   /** Timestamp when the comment was created */
   createdAt: string;
   /** Number of likes */
@@ -68,6 +783,86 @@ export interface FlattenedComment {
   replies: FlattenedComment[];
   /** Parent comment author DID (for flattening logic) */
   parentAuthorDid?: string;
+  /** URI of the comment this same-author continuation was promoted from */
+  continuationOf?: string;
+  /** Replies below the fetched thread depth, not loaded yet */
+  unloadedReplyCount?: number;
+  /** URI of the signed-in reader's like record */
+  viewerLike?: string;
+  /** Reply posted from this page: `pending` until the PDS confirms it */
+  localState?: "pending" | "posted";
+  /** AT URI of the post this comment replies to, when several posts are aggregated */
+  source?: string;
+  /** Moderation label values of the post and its author */
+  labels: string[];
+  /** Set when the comment should be blurred behind a content warning */
+  moderation?: {
+    action: "blur";
+    labels: string[];
+    /** True when the thread author hid this reply */
+    hiddenByAuthor?: boolean;
+  };
+}
+
+/**
+ * One rendered comment of a depth-first walk over the tree (headless rendering)
+ */
+export interface CommentTreeRow {
+  comment: FlattenedComment;
+  /** Nesting depth in the reply tree (0 = top-level comment) */
+  depth: number;
+  /** Visual indentation level; same-author replies stay at their parent's level */
+  level: number;
+  parentAuthorDid?: string;
+  /** Indented under its parent (different author) */
+  indented: boolean;
+  /** Last indented reply of its parent, where the parent thread line ends */
+  isLastSibling: boolean;
+  collapsed: boolean;
+  /** Number of nested replies hidden because this comment is collapsed */
+  hiddenReplyCount: number;
+}
+
+/**
+ * Collapse state of comment threads, keyed by comment URI
+ */
+export interface CommentCollapseState {
+  collapsed: Ref<Set<string>>;
+  isCollapsed: (comment: FlattenedComment) => boolean;
+  toggle: (comment: FlattenedComment) => void;
+  collapse: (comment: FlattenedComment) => void;
+  expand: (comment: FlattenedComment) => void;
+  expandAll: () => void;
+}
+
+/**
+ * "Show more" pagination of top-level comments
+ */
+export interface CommentPagination {
+  visible: ComputedRef<FlattenedComment[]>;
+  hasMore: ComputedRef<boolean>;
+  remaining: ComputedRef<number>;
+  /** Show the next page, or all remaining comments without a page size */
+  showMore: () => void;
+  reset: () => void;
+}
+
+/**
+ * Items of a long list rendered around the viewport, with spacers standing in for the others
+ */
+export interface CommentWindow<T> {
+  /** Element wrapping the rendered items (bind with `ref`), positions are relative to its top */
+  container: Ref<HTMLElement | null>;
+  /** Items to render, with their index in the full list */
+  visible: ComputedRef<{ item: T; index: number }[]>;
+  /** Height in px of the items before the rendered ones */
+  before: ComputedRef<number>;
+  /** Height in px of the items after the rendered ones */
+  after: ComputedRef<number>;
+  /** Function ref measuring a rendered item: `:ref="(el) => measure(key, el)"` */
+  measure: (key: string, el: unknown) => void;
+  /** Scroll the page to the item at `index`, resolving once it is rendered */
+  scrollToIndex: (index: number) => Promise<void>;
 }
 
 /**
@@ -80,6 +875,162 @@ export interface PostStats {
   quoteCount: number;
 }
 
+/**
+ * Processed thread data, serializable into the Nuxt payload
+ */
+export interface BlueskyThreadData {
+  /** The main post data */
+  post: AppBskyFeedDefs.PostView;
+  /** Flattened and processed comments */
+  comments: FlattenedComment[];
+  /** Post engagement stats */
+  stats: PostStats;
+  /** URL to the post on Bluesky */
+  postUrl: string;
+  /** URIs of replies hidden by the thread author */
+  hiddenReplies: string[];
+  /** Reply restrictions, null when anyone can reply */
+  replyGate: ReplyGate | null;
+}
+
+/**
+ * Thread written at build time (`snapshots` module option)
+ */
+export interface BlueskySnapshot {
+  /** Null when discovery found no post */
+  thread: BlueskyThreadData | null;
+  /** Aggregated posts (empty for a single post) */
+  sources: BlueskyThreadSource[];
+  /** ISO date of the build */
+  generatedAt: string;
+}
+
+/**
+ * A page of quote posts
+ */
+export interface BlueskyQuotesPage {
+  /** Quote posts as top-level comments, without the quoted post embed */
+  quotes: FlattenedComment[];
+  /** Cursor of the next page, undefined on the last page */
+  cursor?: string;
+}
+
+/**
+ * Options for the useBlueskyQuotes composable
+ */
+export interface UseBlueskyQuotesOptions {
+  /**
+   * Bluesky API service URL (AppView). Falls back to the module `apiService` option.
+   */
+  apiService?: MaybeRefOrGetter<string | undefined>;
+  /**
+   * Quotes per page (1-100)
+   * @default 25
+   */
+  limit?: number;
+  /**
+   * Action per label value, merged over the defaults and module config
+   */
+  labelActions?: MaybeRefOrGetter<ModerationOptions["labelActions"]>;
+  /**
+   * Account DIDs whose quotes are hidden, added to the module config
+   */
+  mutedDids?: MaybeRefOrGetter<string[] | undefined>;
+  /**
+   * Words or phrases that hide quotes, added to the module config
+   */
+  mutedWords?: MaybeRefOrGetter<string[] | undefined>;
+}
+
+/**
+ * Result from useBlueskyQuotes composable
+ */
+export interface BlueskyQuotesResult {
+  /** Quote posts loaded so far, moderated */
+  quotes: MaybeRef<FlattenedComment[]>;
+  /** Number of loaded quotes hidden by moderation */
+  hiddenCount: MaybeRef<number>;
+  /** A page is being fetched */
+  loading: MaybeRef<boolean>;
+  /** Error of the last page request */
+  error: MaybeRef<string | null>;
+  /** At least one page was fetched */
+  loaded: MaybeRef<boolean>;
+  /** More quotes are available */
+  hasMore: MaybeRef<boolean>;
+  /** Fetch the first page, or the next one */
+  loadMore: () => Promise<void>;
+  /** Drop the loaded quotes and fetch the first page again */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Account that liked or reposted a post
+ */
+export interface BlueskyActor {
+  did: string;
+  handle: string;
+  displayName?: string;
+  avatar?: string;
+}
+
+/**
+ * Who engaged with a post: `likes` (app.bsky.feed.getLikes) or `reposts` (app.bsky.feed.getRepostedBy)
+ */
+export type EngagementKind = "likes" | "reposts";
+
+/**
+ * A page of likers or reposters
+ */
+export interface BlueskyEngagementPage {
+  actors: BlueskyActor[];
+  /** Cursor of the next page, undefined on the last page */
+  cursor?: string;
+}
+
+/**
+ * Options for the useBlueskyEngagement composable (same as for quotes)
+ */
+export type UseBlueskyEngagementOptions = Pick<UseBlueskyQuotesOptions, "apiService" | "limit">;
+
+/**
+ * Result from useBlueskyEngagement composable
+ */
+export interface BlueskyEngagementResult {
+  /** Accounts loaded so far, most recent first */
+  actors: MaybeRef<BlueskyActor[]>;
+  /** A page is being fetched */
+  loading: MaybeRef<boolean>;
+  /** Error of the last page request */
+  error: MaybeRef<string | null>;
+  /** At least one page was fetched */
+  loaded: MaybeRef<boolean>;
+  /** More accounts are available */
+  hasMore: MaybeRef<boolean>;
+  /** Fetch the first page, or the next one */
+  loadMore: () => Promise<void>;
+  /** Drop the loaded accounts and fetch the first page again */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * One of several posts aggregated into a discussion
+ */
+export interface BlueskyThreadSource {
+  /** Post URL or AT URI as passed */
+  input: string;
+  /** AT URI of the post, once loaded */
+  uri?: string;
+  /** CID of the post, once loaded */
+  cid?: string;
+  /** DID of the post author, once loaded */
+  authorDid?: string;
+  /** URL to the post on Bluesky, once loaded */
+  postUrl?: string;
+  /** Error message when its thread failed to load */
+  error?: string;
+}
+
 /**
  * Result from useBlueskyComments composable
  */
@@ -90,6 +1041,18 @@ export interface BlueskyCommentsResult {
   loading: MaybeRef<boolean>;
   /** Error message if any */
   error: MaybeRef<string | null>;
+  /** Discovery found no post linking to the page */
+  notDiscovered: MaybeRef<boolean>;
+  /** Build date of the snapshot shown, null once the live thread is loaded */
+  snapshotAt: MaybeRef<string | null>;
+  /** When the cached thread shown was fetched, null once the live thread is loaded */
+  cachedAt: MaybeRef<string | null>;
+  /** Aggregated posts in the order passed (empty for a single post) */
+  sources: MaybeRef<BlueskyThreadSource[]>;
+  /** Posts whose thread failed to load while others loaded */
+  sourceErrors: MaybeRef<{ source: string; error: string }[]>;
+  /** Number of comments hidden by moderation (including their replies) */
+  hiddenCount: MaybeRef<number>;
   /** The main post data */
   post: MaybeRef<AppBskyFeedDefs.PostView | null>;
   /** Flattened and processed comments */
@@ -98,10 +1061,55 @@ export interface BlueskyCommentsResult {
   stats: MaybeRef<PostStats>;
   /** URL to the post on Bluesky */
   postUrl: MaybeRef<string>;
-  /** Refresh comments */
+  /** Reply restrictions, null when anyone can reply */
+  replyGate: MaybeRef<ReplyGate | null>;
+  /** URIs of comments whose deeper replies are being loaded */
+  loadingReplies: MaybeRef<Set<string>>;
+  /** Load replies below the fetched depth (`unloadedReplyCount`) and merge them into the tree */
+  loadMoreReplies: (comment: FlattenedComment) => Promise<void>;
+  /** Error of the last like or reply */
+  actionError: MaybeRef<string | null>;
+  /** Like or unlike a comment as the signed-in reader (optimistic) */
+  toggleLike: (comment: FlattenedComment) => Promise<void>;
+  /** Reply to the post, or to `parent`, as the signed-in reader (optimistic) */
+  reply: (text: string, parent?: FlattenedComment) => Promise<void>;
+  /** Badges of a comment author (post author, role, custom-domain handle) */
+  getBadges: (author: FlattenedComment["author"]) => CommentBadge[];
+  /** Comments received by live updates that are not shown yet */
+  newCommentCount: MaybeRef<number>;
+  /** Merge the comments received by live updates into the tree */
+  showNewComments: () => void;
+  /** Refetch the live thread, skipping the cache */
   refresh: () => Promise<void>;
 }
 
+/**
+ * Signed-in Bluesky account
+ */
+export interface BlueskyViewer {
+  did: string;
+  handle: string;
+  displayName?: string;
+  avatar?: string;
+}
+
+/**
+ * Bluesky sign-in state, shared by all comment sections on the page
+ */
+export interface BlueskyAuth {
+  /** Sign-in is configured (module `oauth` option) */
+  enabled: boolean;
+  /** The signed-in account, null when signed out */
+  viewer: Ref<BlueskyViewer | null>;
+  /** The stored session has been restored (or there is none) */
+  ready: Ref<boolean>;
+  /** Error of the last sign-in attempt */
+  error: Ref<string | null>;
+  /** Redirect to the account's authorization server; returns to the current page */
+  signIn: (handle: string) => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
 /**
  * Re-export useful types from @atproto/api
  */
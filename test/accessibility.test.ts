@@ -0,0 +1,436 @@
+// @vitest-environment jsdom
+import axe from "axe-core";
+import { mount } from "@vue/test-utils";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { computed, defineComponent, h, nextTick, provide, ref, type PropType } from "vue";
+
+import BlueskyComment from "../src/runtime/components/BlueskyComment.vue";
+import BlueskyComments from "../src/runtime/components/BlueskyComments.vue";
+import BlueskyEmbedImages from "../src/runtime/components/BlueskyEmbedImages.vue";
+import { createBlueskyI18n } from "../src/runtime/composables/i18n.logic";
+import type { BlueskyThreadSource, FlattenedComment } from "../src/runtime/types";
+import { comment } from "./fixtures/comment";
+
+// What useBlueskyComments returns for the mounted <BlueskyComments>
+const discussion = await vi.hoisted(async () => {
+  const { ref } = await import("vue");
+  return {
+    loading: ref(false),
+    comments: ref<FlattenedComment[]>([]),
+    sources: ref<BlueskyThreadSource[]>([]),
+  };
+});
+
+vi.mock("../src/runtime/composables/useBlueskyComments", async () => {
+  const { ref } = await import("vue");
+  const { loading, comments, sources } = discussion;
+  return {
+    useBlueskyComments: () => ({
+      loading,
+      error: ref(null),
+      notDiscovered: ref(false),
+      sources,
+      sourceErrors: ref([]),
+      post: ref({ uri: "at://did:op/app.bsky.feed.post/1", likeCount: 0, repostCount: 0 }),
+      comments,
+      hiddenCount: ref(0),
+      stats: ref({ likeCount: 0, repostCount: 0, replyCount: 2, quoteCount: 1 }),
+      postUrl: ref("https://bsky.app/profile/op.test/post/1"),
+      replyGate: ref(null),
+      loadingReplies: ref(new Set()),
+      loadMoreReplies: async () => {},
+      getBadges: () => [],
+      toggleLike: async () => {},
+      reply: async () => {},
+      newCommentCount: ref(0),
+      showNewComments: () => {},
+      refresh: async () => {},
+    }),
+  };
+});
+
+vi.mock("../src/runtime/composables/useBlueskyAuth", async () => {
+  const { ref } = await import("vue");
+  return {
+    useBlueskyAuth: () => ({
+      enabled: false,
+      viewer: ref(null),
+      ready: ref(false),
+      error: ref(null),
+      signIn: async () => {},
+      signOut: async () => {},
+    }),
+  };
+});
+
+vi.mock("../src/runtime/composables/useBlueskyQuotes", async () => {
+  const { ref } = await import("vue");
+  return {
+    useBlueskyQuotes: () => ({
+      quotes: ref([]),
+      hiddenCount: ref(0),
+      loading: ref(false),
+      error: ref(null),
+      loaded: ref(true),
+      hasMore: ref(false),
+      loadMore: async () => {},
+      refresh: async () => {},
+    }),
+  };
+});
+
+// Comments with a display name and text, which make up their accessible name
+const named = (id: string, overrides: Partial<FlattenedComment> = {}) =>
+  comment(id, {
+    author: { did: `did:${id}`, handle: `${id}.test`, displayName: id.toUpperCase() },
+    text: `Comment ${id}`,
+    segments: [{ type: "text", text: `Comment ${id}` }],
+    ...overrides,
+  });
+
+// a
+// ├─ b
+// │  └─ c
+// └─ d (blurred)
+// e
+function thread() {
+  return [
+    named("a", {
+      replies: [
+        named("b", { replies: [named("c")] }),
+        named("d", { moderation: { action: "blur", labels: ["spoiler"] } }),
+      ],
+    }),
+    named("e"),
+  ];
+}
+
+// The comment tree as BlueskyComments renders it
+const CommentTree = defineComponent({
+  props: { comments: { type: Array as PropType<FlattenedComment[]>, required: true } },
+  setup(props) {
+    const selected = ref<string | null>(null);
+    provide(
+      "blueskyI18n",
+      computed(() => createBlueskyI18n("en")),
+    );
+    provide("blueskyTree", {
+      activeUri: computed(() => selected.value ?? props.comments[0]?.uri ?? null),
+      select: (uri: string) => {
+        selected.value = uri;
+      },
+    });
+    return () =>
+      h(
+        "div",
+        { role: "tree", "aria-label": "Comments" },
+        props.comments.map((c, index) =>
+          h(BlueskyComment, {
+            key: c.uri,
+            comment: c,
+            depth: 0,
+            setSize: props.comments.length,
+            posInSet: index + 1,
+          }),
+        ),
+      );
+  },
+});
+
+function mountTree() {
+  return mount(CommentTree, { props: { comments: thread() }, attachTo: document.body });
+}
+
+const TREE_ITEM = '[role="treeitem"]';
+
+// Tree item found by its accessible name, which starts with the author
+function item(id: string): HTMLElement {
+  const el = [...document.querySelectorAll<HTMLElement>(TREE_ITEM)].find((node) => {
+    const [authorId] = node.getAttribute("aria-labelledby")?.split(" ") ?? [];
+    const name = document.getElementById(authorId!)?.querySelector(".author-name")?.textContent;
+    return name?.trim() === id.toUpperCase();
+  });
+  if (!el) throw new Error(`No tree item for ${id}`);
+  return el;
+}
+
+function press(key: string, target: Element = document.activeElement!) {
+  target.dispatchEvent(new KeyboardEvent("keydown", { key, bubbles: true, cancelable: true }));
+}
+
+async function violations(): Promise<string[]> {
+  // Contrast needs a layout engine, landmarks are up to the page
+  const result = await axe.run(document.body, {
+    rules: { "color-contrast": { enabled: false }, region: { enabled: false } },
+  });
+  return result.violations.map((v) => `${v.id}: ${v.nodes.map((n) => n.html).join(", ")}`);
+}
+
+afterEach(() => {
+  document.body.innerHTML = "";
+});
+
+describe("comment tree accessibility", () => {
+  it("has no axe violations", async () => {
+    const wrapper = mountTree();
+    expect(await violations()).toEqual([]);
+
+    // Collapsed and with a revealed content warning
+    await wrapper.find(".thread-toggle-btn").trigger("click");
+    expect(await violations()).toEqual([]);
+    wrapper.unmount();
+  });
+
+  it("exposes levels, positions and expanded state", () => {
+    const wrapper = mountTree();
+    const a = item("a");
+
+    expect(a.getAttribute("aria-level")).toBe("1");
+    expect(a.getAttribute("aria-posinset")).toBe("1");
+    expect(a.getAttribute("aria-setsize")).toBe("2");
+    expect(a.getAttribute("aria-expanded")).toBe("true");
+    expect(item("b").getAttribute("aria-level")).toBe("2");
+    expect(item("c").getAttribute("aria-level")).toBe("3");
+    expect(item("d").getAttribute("aria-posinset")).toBe("2");
+    expect(item("e").hasAttribute("aria-expanded")).toBe(false);
+    expect(a.querySelector(".replies-list")?.getAttribute("role")).toBe("group");
+    wrapper.unmount();
+  });
+
+  it("keeps one comment in the tab order", async () => {
+    const wrapper = mountTree();
+    const tabbable = () =>
+      [...document.querySelectorAll('[role="treeitem"]')].filter(
+        (el) => el.getAttribute("tabindex") === "0",
+      );
+
+    expect(tabbable()).toEqual([item("a")]);
+
+    item("c").focus();
+    await wrapper.vm.$nextTick();
+    expect(tabbable()).toEqual([item("c")]);
+    wrapper.unmount();
+  });
+
+  it("moves between visible comments with arrows, Home, End and j/k", () => {
+    const wrapper = mountTree();
+    item("a").focus();
+
+    press("ArrowDown");
+    expect(document.activeElement).toBe(item("b"));
+    press("j");
+    expect(document.activeElement).toBe(item("c"));
+    press("End");
+    expect(document.activeElement).toBe(item("e"));
+    press("k");
+    expect(document.activeElement).toBe(item("d"));
+    press("Home");
+    expect(document.activeElement).toBe(item("a"));
+
+    // j/k also work from a link inside the comment
+    press("k", item("e").querySelector(".author-name")!);
+    expect(document.activeElement).toBe(item("d"));
+    press("ArrowUp");
+    expect(document.activeElement).toBe(item("c"));
+    wrapper.unmount();
+  });
+
+  it("collapses, expands and moves through levels with left and right", async () => {
+    const wrapper = mountTree();
+    item("b").focus();
+
+    press("ArrowRight");
+    expect(document.activeElement).toBe(item("c"));
+    press("ArrowLeft");
+    expect(document.activeElement).toBe(item("b"));
+
+    press("ArrowLeft");
+    await wrapper.vm.$nextTick();
+    expect(item("b").getAttribute("aria-expanded")).toBe("false");
+    expect(document.querySelectorAll('[role="treeitem"]')).toHaveLength(4);
+
+    press("ArrowRight");
+    await wrapper.vm.$nextTick();
+    expect(item("b").getAttribute("aria-expanded")).toBe("true");
+    expect(document.activeElement).toBe(item("b"));
+    wrapper.unmount();
+  });
+
+  it("moves focus to the comment whose focused reply gets collapsed", async () => {
+    const wrapper = mountTree();
+    item("c").focus();
+
+    item("a").querySelector<HTMLElement>(".thread-toggle-btn")!.click();
+    await wrapper.vm.$nextTick();
+
+    expect(document.activeElement).toBe(item("a"));
+    expect(item("a").getAttribute("tabindex")).toBe("0");
+    wrapper.unmount();
+  });
+
+  it("labels the collapse button with its state", async () => {
+    const wrapper = mountTree();
+    const toggle = wrapper.find(".thread-toggle-btn");
+
+    expect(toggle.attributes("aria-label")).toBe("Collapse replies");
+    expect(toggle.attributes("aria-expanded")).toBe("true");
+    await toggle.trigger("click");
+    expect(toggle.attributes("aria-label")).toBe("Expand replies");
+    expect(toggle.attributes("aria-expanded")).toBe("false");
+    wrapper.unmount();
+  });
+});
+
+describe("BlueskyComments accessibility", () => {
+  const uri = "at://did:op/app.bsky.feed.post/1";
+
+  function mountComments(props: Record<string, unknown> = {}) {
+    return mount(BlueskyComments, { props: { uri, ...props }, attachTo: document.body });
+  }
+
+  afterEach(() => {
+    discussion.loading.value = false;
+    discussion.comments.value = [];
+    discussion.sources.value = [];
+    vi.unstubAllGlobals();
+  });
+
+  it("points each tab at its panel", async () => {
+    discussion.comments.value = thread();
+    const wrapper = mountComments({ quotes: true });
+
+    const tabs = [...document.querySelectorAll('[role="tab"]')];
+    expect(tabs).toHaveLength(2);
+    for (const tab of tabs) {
+      const panel = document.getElementById(tab.getAttribute("aria-controls")!);
+      expect(panel?.getAttribute("role")).toBe("tabpanel");
+      expect(panel?.getAttribute("aria-labelledby")).toBe(tab.id);
+    }
+    expect(await violations()).toEqual([]);
+
+    await wrapper.findAll('[role="tab"]')[1]!.trigger("click");
+    const [comments, quotes] = tabs.map((tab) =>
+      document.getElementById(tab.getAttribute("aria-controls")!),
+    );
+    expect(comments?.hidden).toBe(true);
+    expect(quotes?.hidden).toBe(false);
+    expect(await violations()).toEqual([]);
+    wrapper.unmount();
+  });
+
+  it("labels the comments of each merged post as a tree of their own", async () => {
+    discussion.sources.value = [
+      { input: "a", uri: "at://a", postUrl: "https://bsky.app/a" },
+      { input: "b", uri: "at://b", postUrl: "https://bsky.app/b" },
+    ];
+    discussion.comments.value = [
+      named("a", { source: "at://a" }),
+      named("b", { source: "at://a" }),
+      named("c", { source: "at://b" }),
+    ];
+    const wrapper = mountComments({ uri: ["at://a", "at://b"], groupBySource: true });
+
+    const trees = [...document.querySelectorAll('[role="tree"]')];
+    expect(trees.map((tree) => tree.getAttribute("aria-label"))).toEqual([
+      "Replies to post 1",
+      "Replies to post 2",
+    ]);
+    expect(trees.map((tree) => tree.querySelector("a.bsky-source-label"))).toEqual([null, null]);
+    expect(item("b").getAttribute("aria-setsize")).toBe("2");
+    expect(item("c").getAttribute("aria-posinset")).toBe("1");
+    expect(await violations()).toEqual([]);
+
+    // One tab stop, arrows move on to the next post's comments
+    item("b").focus();
+    press("ArrowDown");
+    expect(document.activeElement).toBe(item("c"));
+    press("Home");
+    expect(document.activeElement).toBe(item("a"));
+    wrapper.unmount();
+  });
+
+  it("announces loading and the loaded replies in a live region", async () => {
+    discussion.loading.value = true;
+    const wrapper = mountComments();
+    const status = () => document.querySelector(".bsky-comments > [role='status']")?.textContent;
+
+    discussion.loading.value = false;
+    discussion.comments.value = thread();
+    await nextTick();
+    expect(status()).toBe("2 replies");
+    expect(await violations()).toEqual([]);
+
+    discussion.loading.value = true;
+    await nextTick();
+    expect(status()).toBe("Loading comments...");
+    wrapper.unmount();
+  });
+
+  it("scrolls to the first and last comments with Home and End when virtualized", async () => {
+    vi.stubGlobal(
+      "ResizeObserver",
+      class {
+        observe() {}
+        unobserve() {}
+        disconnect() {}
+      },
+    );
+    vi.stubGlobal("scrollTo", vi.fn());
+    discussion.comments.value = Array.from({ length: 40 }, (_, index) => named(`t${index}`));
+    const wrapper = mountComments({ virtualize: true, limit: 40 });
+    await nextTick();
+
+    const rendered = () => document.querySelectorAll("[data-thread-index]");
+    expect(rendered().length).toBeLessThan(40);
+
+    item("t0").focus();
+    press("End");
+    await vi.waitFor(() => expect(document.activeElement).toBe(item("t39")));
+    expect(window.scrollTo).toHaveBeenCalled();
+    expect(document.querySelector('[data-thread-index="0"]')).toBeNull();
+
+    press("Home");
+    await vi.waitFor(() => expect(document.activeElement).toBe(item("t0")));
+    wrapper.unmount();
+  });
+});
+
+describe("image lightbox accessibility", () => {
+  const images = ["a", "b"].map((id) => ({
+    thumb: `https://cdn.test/${id}/thumb`,
+    fullsize: `https://cdn.test/${id}/full`,
+    alt: `Image ${id}`,
+  }));
+
+  function tab(shiftKey = false) {
+    const event = new KeyboardEvent("keydown", { key: "Tab", shiftKey, cancelable: true });
+    window.dispatchEvent(event);
+    return event;
+  }
+
+  it("focuses the close button, keeps Tab inside and returns focus on close", async () => {
+    const wrapper = mount(BlueskyEmbedImages, { props: { images }, attachTo: document.body });
+    const thumbnail = wrapper.findAll("button")[1]!;
+
+    await thumbnail.trigger("click");
+    await nextTick();
+    const [close, previous, next] =
+      document.querySelectorAll<HTMLElement>('[role="dialog"] button');
+    expect(document.activeElement).toBe(close);
+    expect(await violations()).toEqual([]);
+
+    tab(true);
+    expect(document.activeElement).toBe(next);
+    tab();
+    expect(document.activeElement).toBe(close);
+    // Between the first and last button, Tab moves focus as usual
+    previous!.focus();
+    expect(tab().defaultPrevented).toBe(false);
+
+    window.dispatchEvent(new KeyboardEvent("keydown", { key: "Escape" }));
+    await nextTick();
+    expect(document.querySelector('[role="dialog"]')).toBeNull();
+    expect(document.activeElement).toBe(thumbnail.element);
+    wrapper.unmount();
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+
+import type { BlueskyThreadData, FlattenedComment } from "../src/runtime/types";
+import {
+  groupCommentsBySource,
+  mergeSourceThreads,
+} from "../src/runtime/composables/aggregate.logic";
+import { comment } from "./fixtures/comment";
+
+function thread(id: string, comments: FlattenedComment[], likeCount = 1): BlueskyThreadData {
+  return {
+    post: {
+      uri: `at://did:plc:root/app.bsky.feed.post/${id}`,
+      cid: id,
+      author: { did: "did:plc:root", handle: "root.test" },
+      record: {},
+      indexedAt: "2020-01-01T00:00:00.000Z",
+    },
+    comments,
+    stats: { likeCount, repostCount: 1, replyCount: comments.length, quoteCount: 0 },
+    postUrl: `https://bsky.app/profile/root.test/post/${id}`,
+    hiddenReplies: [`hidden-${id}`],
+    replyGate: null,
+  };
+}
+
+describe("aggregate.logic", () => {
+  it("mergeSourceThreads: merges comments, sums stats and de-duplicates by URI", () => {
+    const shared = comment("shared", { replies: [comment("nested")] });
+    const { thread: merged, sources } = mergeSourceThreads([
+      { input: "launch", thread: thread("launch", [comment("a"), shared], 3) },
+      { input: "follow-up", thread: thread("follow-up", [shared, comment("b")], 2) },
+    ]);
+
+    expect(merged?.post.cid).toBe("launch");
+    expect(merged?.comments.map((c) => c.id)).toEqual(["a", "shared", "b"]);
+    expect(merged?.comments.map((c) => c.source?.split("/").pop())).toEqual([
+      "launch",
+      "launch",
+      "follow-up",
+    ]);
+    expect(merged?.comments[1]?.replies[0]?.source).toBe(merged?.comments[1]?.source);
+    expect(merged?.stats).toEqual({ likeCount: 5, repostCount: 2, replyCount: 4, quoteCount: 0 });
+    expect(merged?.hiddenReplies).toEqual(["hidden-launch", "hidden-follow-up"]);
+    expect(sources.map((s) => s.cid)).toEqual(["launch", "follow-up"]);
+  });
+
+  it("mergeSourceThreads: keeps loaded sources when others fail", () => {
+    const { thread: merged, sources } = mergeSourceThreads([
+      { input: "broken", error: "Post not found" },
+      { input: "ok", thread: thread("ok", [comment("a")]) },
+      // The same post passed twice is counted once
+      { input: "ok again", thread: thread("ok", [comment("a")]) },
+    ]);
+
+    expect(merged?.post.cid).toBe("ok");
+    expect(merged?.stats.likeCount).toBe(1);
+    expect(sources[0]).toEqual({ input: "broken", error: "Post not found" });
+
+    expect(mergeSourceThreads([{ input: "broken", error: "boom" }]).thread).toBeNull();
+  });
+
+  it("groupCommentsBySource: orders by source, keeping the order within each post", () => {
+    const [a, b, c] = ["a", "b", "c"].map((id) => comment(id));
+    const tagged = [
+      { ...a!, source: "second" },
+      { ...b!, source: "first" },
+      { ...c!, source: "second" },
+    ];
+
+    expect(groupCommentsBySource(tagged, ["first", "second"]).map((x) => x.id)).toEqual([
+      "b",
+      "a",
+      "c",
+    ]);
+  });
+});
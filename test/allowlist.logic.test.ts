@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from "vitest";
+
+import {
+  getPostAuthority,
+  isAllowedPage,
+  isAllowedPost,
+} from "../src/runtime/composables/allowlist.logic";
+
+const DIDS: Record<string, string> = {
+  "alice.bsky.social": "did:plc:alice",
+  "alice.example.com": "did:plc:alice",
+};
+
+const resolveHandle = vi.fn(async (handle: string) => {
+  const did = DIDS[handle];
+  if (!did) throw new Error("Unable to resolve handle");
+  return did;
+});
+
+describe("allowlist.logic", () => {
+  it("getPostAuthority: reads the account of post URLs and AT URIs", () => {
+    expect(getPostAuthority("https://bsky.app/profile/alice.bsky.social/post/abc")).toBe(
+      "alice.bsky.social",
+    );
+    expect(getPostAuthority("at://did:plc:alice/app.bsky.feed.post/abc")).toBe("did:plc:alice");
+    expect(getPostAuthority("at://did:plc:alice/app.bsky.actor.profile/self")).toBeNull();
+    expect(getPostAuthority("https://example.com/")).toBeNull();
+  });
+
+  it("isAllowedPost: allows everything without an allowlist", async () => {
+    await expect(isAllowedPost("anything", undefined, resolveHandle)).resolves.toBe(true);
+    await expect(isAllowedPost("anything", [], resolveHandle)).resolves.toBe(true);
+  });
+
+  it("isAllowedPost: matches authors by DID or handle", async () => {
+    const allow = ["@Alice.bsky.social"];
+    const post = (account: string) => `https://bsky.app/profile/${account}/post/abc`;
+
+    await expect(isAllowedPost(post("alice.bsky.social"), allow, resolveHandle)).resolves.toBe(
+      true,
+    );
+    // Other handles and DIDs of the same account
+    await expect(isAllowedPost(post("alice.example.com"), allow, resolveHandle)).resolves.toBe(
+      true,
+    );
+    await expect(
+      isAllowedPost("at://did:plc:alice/app.bsky.feed.post/abc", allow, resolveHandle),
+    ).resolves.toBe(true);
+
+    await expect(isAllowedPost(post("bob.bsky.social"), allow, resolveHandle)).resolves.toBe(false);
+    await expect(
+      isAllowedPost("at://did:plc:bob/app.bsky.feed.post/abc", ["did:plc:alice"], resolveHandle),
+    ).resolves.toBe(false);
+  });
+
+  it("isAllowedPost: matches URL prefixes", async () => {
+    const allow = ["https://bsky.app/profile/did:plc:alice/"];
+
+    await expect(
+      isAllowedPost("https://bsky.app/profile/did:plc:alice/post/abc", allow, resolveHandle),
+    ).resolves.toBe(true);
+    await expect(
+      isAllowedPost("https://bsky.app/profile/did:plc:bob/post/abc", allow, resolveHandle),
+    ).resolves.toBe(false);
+  });
+
+  it("isAllowedPost: only matches URL prefixes against post URLs and AT URIs", async () => {
+    const allow = ["https://example.com/blog/"];
+    const smuggled =
+      "https://example.com/blog/x?u=https://bsky.app/profile/anyone.bsky.social/post/3abc";
+
+    expect(getPostAuthority(smuggled)).toBeNull();
+    await expect(isAllowedPost(smuggled, allow, resolveHandle)).resolves.toBe(false);
+  });
+
+  it("isAllowedPage: matches page URL prefixes or the author filter", async () => {
+    const allow = ["https://example.com/blog/", "did:plc:alice"];
+
+    await expect(
+      isAllowedPage("https://example.com/blog/post", undefined, allow, resolveHandle),
+    ).resolves.toBe(true);
+    await expect(
+      isAllowedPage("https://other.test/", "alice.bsky.social", allow, resolveHandle),
+    ).resolves.toBe(true);
+    await expect(
+      isAllowedPage("https://other.test/", undefined, allow, resolveHandle),
+    ).resolves.toBe(false);
+  });
+});
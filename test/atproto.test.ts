@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  configureAtproto,
+  DEFAULT_API_SERVICE,
+  getAtpAgent,
+  loadAtproto,
+} from "../src/runtime/composables/atproto";
+
+describe("atproto loader", () => {
+  it("loads the bundled package by default", async () => {
+    configureAtproto({ source: "bundled" });
+
+    const mod = await loadAtproto();
+    const local = await import("@atproto/api");
+    expect(mod.AtpAgent).toBe(local.AtpAgent);
+  });
+
+  it("imports the configured URL for remote sources", async () => {
+    configureAtproto({
+      source: "cdn",
+      url: "data:text/javascript,export const AtpAgent = 'remote'; export const AppBskyFeedDefs = {};",
+    });
+
+    const mod = await loadAtproto();
+    expect(mod.AtpAgent).toBe("remote");
+
+    configureAtproto({ source: "bundled" });
+  });
+
+  it("caches agents per service", async () => {
+    configureAtproto({ source: "bundled" });
+
+    const a = await getAtpAgent();
+    const b = await getAtpAgent(DEFAULT_API_SERVICE);
+    const c = await getAtpAgent("https://appview.example.com");
+
+    expect(a).toBe(b);
+    expect(c).not.toBe(a);
+    expect(c.serviceUrl.toString()).toBe("https://appview.example.com/");
+  });
+
+  it("drops cached agents when the loader is reconfigured", async () => {
+    configureAtproto({ source: "bundled" });
+    const before = await getAtpAgent();
+
+    configureAtproto({ source: "bundled" });
+    expect(await getAtpAgent()).not.toBe(before);
+  });
+});
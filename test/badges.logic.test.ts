@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  findRole,
+  getCommentBadges,
+  isDomainHandle,
+} from "../src/runtime/composables/badges.logic";
+
+const alice = { did: "did:plc:alice", handle: "alice.com" };
+const bob = { did: "did:plc:bob", handle: "bob.bsky.social" };
+
+describe("badges.logic", () => {
+  it("isDomainHandle: skips hosted and invalid handles", () => {
+    expect(isDomainHandle("alice.com")).toBe(true);
+    expect(isDomainHandle("Bob.BSKY.social")).toBe(false);
+    expect(isDomainHandle("handle.invalid")).toBe(false);
+    expect(isDomainHandle(undefined)).toBe(false);
+  });
+
+  it("findRole: matches DIDs and handles", () => {
+    const roles = {
+      "did:plc:alice": { label: "Team", class: "badge-team" },
+      "@Bob.bsky.social": "Moderator",
+    };
+
+    expect(findRole(alice, roles)).toEqual({ label: "Team", class: "badge-team" });
+    expect(findRole(bob, roles)).toEqual({ label: "Moderator" });
+    expect(findRole({ did: "did:plc:carol", handle: "carol.test" }, roles)).toBeUndefined();
+  });
+
+  it("getCommentBadges: post author, role, then custom domain", () => {
+    const options = {
+      authorDids: ["did:plc:alice"],
+      roles: { "alice.com": "Team", "did:plc:bob": "Moderator" },
+      domainBadge: true,
+    };
+
+    expect(getCommentBadges(alice, options)).toEqual([
+      { type: "author" },
+      { type: "role", label: "Team", class: undefined },
+      { type: "domain" },
+    ]);
+    expect(getCommentBadges(bob, options)).toEqual([
+      { type: "role", label: "Moderator", class: undefined },
+    ]);
+    expect(getCommentBadges(alice)).toEqual([]);
+  });
+});
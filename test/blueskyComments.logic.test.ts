@@ -73,6 +73,11 @@ describe("blueskyComments.logic", () => {
 
   it("parseBlueskyUrl: returns null for invalid URLs", () => {
     expect(parseBlueskyUrl("https://example.com/x")).toBeNull();
+    // Post URLs inside other URLs
+    expect(
+      parseBlueskyUrl("https://example.com/?u=https://bsky.app/profile/a.test/post/abc"),
+    ).toBeNull();
+    expect(parseBlueskyUrl("https://bsky.app/profile/a.test/post/abc/likes")).toBeNull();
   });
 
   it("uriToUrl: converts AT URI to web URL", () => {
@@ -118,6 +123,12 @@ describe("blueskyComments.logic", () => {
     expect(out[0]?.replies).toEqual([]);
     expect(out[1]?.replies.map((r) => r.id)).toEqual(["b1"]);
     expect(out[2]?.replies).toEqual([]);
+    // Continuations keep a link to the comment they were promoted from
+    expect(out.map((x) => x.continuationOf)).toEqual([
+      undefined,
+      "at://did:a/app.bsky.feed.post/a1",
+      "at://did:a/app.bsky.feed.post/a2",
+    ]);
   });
 
   it("processReplies: when disabled, keeps same-author continuations nested", async () => {
@@ -138,4 +149,53 @@ describe("blueskyComments.logic", () => {
     // Sorted by engagement: a3 (100) then b1 (1)
     expect(out[0]?.replies[0]?.replies.map((r) => r.id)).toEqual(["a3", "b1"]);
   });
+
+  it("processReplies: marks replies below the fetched depth as unloaded", async () => {
+    const loaded = tvp("did:a", "a", { reply: 1, replies: [tvp("did:b", "b")] });
+    const cutOff = tvp("did:c", "c", { reply: 4 });
+
+    const out = await processReplies(
+      [loaded, cutOff] as unknown as Parameters<typeof processReplies>[0],
+      "did:root",
+      0,
+    );
+
+    expect(out.find((x) => x.id === "a")?.unloadedReplyCount).toBeUndefined();
+    expect(out.find((x) => x.id === "c")?.unloadedReplyCount).toBe(4);
+  });
+
+  it("processReplies: marks the replies missing from a partial set at the depth limit as unloaded", async () => {
+    const notFound = { uri: "at://did:x/app.bsky.feed.post/x", notFound: true };
+    const partial = tvp("did:a", "a", {
+      reply: 3,
+      replies: [tvp("did:b", "b"), notFound as unknown as MinimalThreadViewPost],
+    });
+
+    const out = await processReplies(
+      [partial] as unknown as Parameters<typeof processReplies>[0],
+      "did:root",
+      0,
+      { depthLimit: 1 },
+    );
+
+    expect(out[0]?.replies.map((r) => r.id)).toEqual(["b"]);
+    expect(out[0]?.unloadedReplyCount).toBe(2);
+  });
+
+  it("processReplies: ignores reply count mismatches in a full-depth thread", async () => {
+    // The count includes deleted, blocked or hidden replies the AppView leaves out
+    const mismatch = tvp("did:a", "a", {
+      reply: 3,
+      replies: [tvp("did:b", "b", { reply: 2, replies: [] })],
+    });
+
+    const out = await processReplies(
+      [mismatch] as unknown as Parameters<typeof processReplies>[0],
+      "did:root",
+      0,
+    );
+
+    expect(out[0]?.unloadedReplyCount).toBeUndefined();
+    expect(out[0]?.replies[0]?.unloadedReplyCount).toBeUndefined();
+  });
 });
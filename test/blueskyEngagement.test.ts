@@ -0,0 +1,64 @@
+import { describe, expect, it, vi } from "vitest";
+
+const agentMocks = vi.hoisted(() => {
+  return {
+    getLikes: vi.fn(),
+    getRepostedBy: vi.fn(),
+  };
+});
+
+vi.mock("../src/runtime/composables/atproto", () => {
+  return {
+    DEFAULT_API_SERVICE: "https://public.api.bsky.app",
+    getAtpAgent: vi.fn(async () => ({ app: { bsky: { feed: agentMocks } } })),
+  };
+});
+
+import { fetchBlueskyEngagement } from "../src/runtime/composables/blueskyEngagement";
+
+const URI = "at://did:plc:root/app.bsky.feed.post/root";
+const profile = (handle: string) => ({
+  did: `did:plc:${handle}`,
+  handle,
+  avatar: `https://cdn.test/${handle}.jpg`,
+  labels: [],
+  viewer: {},
+});
+
+describe("blueskyEngagement", () => {
+  it("fetchBlueskyEngagement: lists likers with the next cursor", async () => {
+    agentMocks.getLikes.mockResolvedValue({
+      data: {
+        uri: URI,
+        likes: [{ actor: profile("alice.test"), createdAt: "", indexedAt: "" }],
+        cursor: "next",
+      },
+    });
+
+    await expect(
+      fetchBlueskyEngagement("likes", URI, { cursor: "prev", limit: 10 }),
+    ).resolves.toEqual({
+      actors: [
+        {
+          did: "did:plc:alice.test",
+          handle: "alice.test",
+          displayName: undefined,
+          avatar: "https://cdn.test/alice.test.jpg",
+        },
+      ],
+      cursor: "next",
+    });
+    expect(agentMocks.getLikes.mock.calls[0]?.[0]).toEqual({ uri: URI, cursor: "prev", limit: 10 });
+  });
+
+  it("fetchBlueskyEngagement: lists reposters and ends on an empty page", async () => {
+    agentMocks.getRepostedBy.mockResolvedValue({
+      data: { uri: URI, repostedBy: [], cursor: "stale" },
+    });
+
+    await expect(fetchBlueskyEngagement("reposts", URI)).resolves.toEqual({
+      actors: [],
+      cursor: undefined,
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const agentMocks = vi.hoisted(() => {
+  return {
+    resolveHandle: vi.fn(),
+    getPostThread: vi.fn(),
+  };
+});
+
+vi.mock("../src/runtime/composables/atproto", () => {
+  return {
+    DEFAULT_API_SERVICE: "https://public.api.bsky.app",
+    getAtpAgent: vi.fn(async () => agentMocks),
+    loadAtproto: vi.fn(async () => {
+      return {
+        AppBskyFeedDefs: {
+          isThreadViewPost: (v: unknown) => typeof v === "object" && v !== null && "post" in v,
+          isBlockedPost: (v: unknown) => typeof v === "object" && v !== null && "blocked" in v,
+          isNotFoundPost: (v: unknown) => typeof v === "object" && v !== null && "notFound" in v,
+        },
+      };
+    }),
+  };
+});
+
+import { fetchBlueskyThread, resolvePostUri } from "../src/runtime/composables/blueskyThread";
+import { invalidateBlueskyCache } from "../src/runtime/composables/cache";
+
+function rootThread() {
+  return {
+    post: {
+      cid: "root",
+      uri: "at://did:plc:root/app.bsky.feed.post/root",
+      author: { did: "did:plc:root", handle: "root.test" },
+      record: { text: "root", createdAt: "2020-01-01T00:00:00.000Z" },
+      indexedAt: "2020-01-01T00:00:00.000Z",
+      likeCount: 3,
+      repostCount: 2,
+      replyCount: 1,
+      quoteCount: 4,
+    },
+    replies: [
+      {
+        post: {
+          cid: "r1",
+          uri: "at://did:plc:a/app.bsky.feed.post/r1",
+          author: { did: "did:plc:a", handle: "a.test" },
+          record: { text: "hi", createdAt: "2020-01-02T00:00:00.000Z" },
+          indexedAt: "2020-01-02T00:00:00.000Z",
+        },
+      },
+    ],
+  };
+}
+
+describe("blueskyThread", () => {
+  beforeEach(() => invalidateBlueskyCache());
+
+  it("resolvePostUri: resolves handles through the agent", async () => {
+    agentMocks.resolveHandle.mockResolvedValue({ data: { did: "did:plc:root" } });
+
+    await expect(resolvePostUri("https://bsky.app/profile/root.test/post/root")).resolves.toBe(
+      "at://did:plc:root/app.bsky.feed.post/root",
+    );
+    expect(agentMocks.resolveHandle).toHaveBeenCalledWith(
+      { handle: "root.test" },
+      { signal: expect.any(AbortSignal) },
+    );
+  });
+
+  it("resolvePostUri: keeps AT URIs and DID URLs without network calls", async () => {
+    await expect(resolvePostUri("at://did:plc:x/app.bsky.feed.post/y")).resolves.toBe(
+      "at://did:plc:x/app.bsky.feed.post/y",
+    );
+    await expect(resolvePostUri("https://bsky.app/profile/did:plc:x/post/y")).resolves.toBe(
+      "at://did:plc:x/app.bsky.feed.post/y",
+    );
+    expect(agentMocks.resolveHandle).not.toHaveBeenCalled();
+  });
+
+  it("fetchBlueskyThread: returns post, stats, url and processed comments", async () => {
+    agentMocks.getPostThread.mockResolvedValue({ success: true, data: { thread: rootThread() } });
+
+    const out = await fetchBlueskyThread("at://did:plc:root/app.bsky.feed.post/root");
+
+    expect(out.stats).toEqual({ likeCount: 3, repostCount: 2, replyCount: 1, quoteCount: 4 });
+    expect(out.postUrl).toBe("https://bsky.app/profile/root.test/post/root");
+    expect(out.comments.map((c) => c.id)).toEqual(["r1"]);
+  });
+
+  it("fetchBlueskyThread: aborts the AppView request with the caller's signal", async () => {
+    let requestSignal: AbortSignal | undefined;
+    agentMocks.getPostThread.mockImplementation(
+      (_params: unknown, { signal }: { signal: AbortSignal }) => {
+        requestSignal = signal;
+        return new Promise(() => {});
+      },
+    );
+    const controller = new AbortController();
+
+    const result = fetchBlueskyThread("at://did:plc:root/app.bsky.feed.post/root", {
+      signal: controller.signal,
+    });
+    await vi.waitFor(() => expect(requestSignal).toBeDefined());
+    controller.abort(new Error("Post changed"));
+
+    await expect(result).rejects.toThrow("Post changed");
+    expect(agentMocks.getPostThread).toHaveBeenLastCalledWith(
+      { uri: "at://did:plc:root/app.bsky.feed.post/root", depth: 1000, parentHeight: 0 },
+      { signal: requestSignal },
+    );
+    expect(requestSignal?.aborted).toBe(true);
+  });
+
+  it("fetchBlueskyThread: shares concurrent requests and resolves a handle once", async () => {
+    agentMocks.resolveHandle.mockResolvedValue({ data: { did: "did:plc:root" } });
+    agentMocks.getPostThread.mockImplementation(
+      () =>
+        new Promise((resolve) =>
+          setTimeout(() => resolve({ success: true, data: { thread: rootThread() } }), 10),
+        ),
+    );
+
+    const [byUrl, byUri] = await Promise.all([
+      fetchBlueskyThread("https://bsky.app/profile/root.test/post/root"),
+      fetchBlueskyThread("at://did:plc:root/app.bsky.feed.post/root"),
+    ]);
+    await fetchBlueskyThread("https://bsky.app/profile/Root.test/post/other").catch(() => {});
+
+    expect(byUrl).toBe(byUri);
+    expect(agentMocks.getPostThread).toHaveBeenCalledTimes(2);
+    expect(agentMocks.resolveHandle).toHaveBeenCalledOnce();
+  });
+
+  it("fetchBlueskyThread: fetches a shallow thread when a depth is given", async () => {
+    agentMocks.getPostThread.mockResolvedValue({ success: true, data: { thread: rootThread() } });
+
+    await fetchBlueskyThread("at://did:plc:root/app.bsky.feed.post/root", { depth: 2 });
+
+    expect(agentMocks.getPostThread).toHaveBeenLastCalledWith(
+      expect.objectContaining({ depth: 2 }),
+      expect.anything(),
+    );
+  });
+
+  it("fetchBlueskyThread: uses the signed-in reader's agent and keeps their like state", async () => {
+    const thread = rootThread();
+    Object.assign(thread.replies[0]!.post, {
+      viewer: { like: "at://did:plc:me/app.bsky.feed.like/1" },
+    });
+    const viewerAgent = {
+      getPostThread: vi.fn(async () => ({ success: true, data: { thread } })),
+    };
+    const publicCalls = agentMocks.getPostThread.mock.calls.length;
+
+    const result = await fetchBlueskyThread("at://did:plc:root/app.bsky.feed.post/root", {
+      agent: viewerAgent as never,
+    });
+
+    expect(viewerAgent.getPostThread).toHaveBeenCalledOnce();
+    expect(agentMocks.getPostThread).toHaveBeenCalledTimes(publicCalls);
+    expect(result.comments[0]?.viewerLike).toBe("at://did:plc:me/app.bsky.feed.like/1");
+  });
+
+  it("fetchBlueskyThread: throws for missing posts", async () => {
+    agentMocks.getPostThread.mockResolvedValue({
+      success: true,
+      data: { thread: { notFound: true } },
+    });
+
+    await expect(fetchBlueskyThread("at://did:plc:root/app.bsky.feed.post/gone")).rejects.toThrow(
+      "Post not found: at://did:plc:root/app.bsky.feed.post/gone",
+    );
+  });
+});
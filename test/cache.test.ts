@@ -0,0 +1,238 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  DEFAULT_CACHE_MAX_ENTRIES,
+  DEFAULT_CACHE_TTL,
+  dedupeRequest,
+  getCacheStore,
+  invalidateBlueskyCache,
+  readCache,
+  resolveCacheOptions,
+  resolveHandleCached,
+  writeCache,
+} from "../src/runtime/composables/cache";
+
+const POST = "at://did:plc:abc/app.bsky.feed.post/xyz";
+const OTHER = "at://did:plc:abc/app.bsky.feed.post/other";
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+function createStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    key: (index) => [...items.keys()][index] ?? null,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key),
+    clear: () => items.clear(),
+  };
+}
+
+beforeEach(() => invalidateBlueskyCache());
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("dedupeRequest", () => {
+  it("shares a request between concurrent callers", async () => {
+    const response = deferred<string>();
+    const request = vi.fn(() => response.promise);
+
+    const first = dedupeRequest("key", request);
+    const second = dedupeRequest("key", request);
+    response.resolve("thread");
+
+    await expect(Promise.all([first, second])).resolves.toEqual(["thread", "thread"]);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it("starts a new request once the previous one settled", async () => {
+    const request = vi.fn(async () => "thread");
+
+    await dedupeRequest("key", request);
+    await dedupeRequest("key", request);
+
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it("aborts the request only when every caller aborted", async () => {
+    const response = deferred<string>();
+    let requestSignal: AbortSignal | undefined;
+    const request = (signal: AbortSignal) => {
+      requestSignal = signal;
+      return response.promise;
+    };
+    const firstCaller = new AbortController();
+    const secondCaller = new AbortController();
+
+    const first = dedupeRequest("key", request, firstCaller.signal);
+    const second = dedupeRequest("key", request, secondCaller.signal);
+
+    firstCaller.abort(new Error("first aborted"));
+    await expect(first).rejects.toThrow("first aborted");
+    expect(requestSignal?.aborted).toBe(false);
+
+    secondCaller.abort(new Error("second aborted"));
+    await expect(second).rejects.toThrow("second aborted");
+    expect(requestSignal?.aborted).toBe(true);
+  });
+
+  it("rejects every caller when the request fails", async () => {
+    const request = () => Promise.reject(new Error("Network error"));
+
+    await expect(
+      Promise.all([dedupeRequest("key", request), dedupeRequest("key", request)]),
+    ).rejects.toThrow("Network error");
+  });
+});
+
+describe("resolveHandleCached", () => {
+  it("resolves a handle once, ignoring case", async () => {
+    const resolve = vi.fn(async () => "did:plc:abc");
+
+    await expect(resolveHandleCached("User.bsky.social", resolve)).resolves.toBe("did:plc:abc");
+    await expect(resolveHandleCached("user.bsky.social", resolve)).resolves.toBe("did:plc:abc");
+
+    expect(resolve).toHaveBeenCalledTimes(1);
+  });
+
+  it("resolves again after the cache is invalidated", async () => {
+    const resolve = vi.fn(async () => "did:plc:abc");
+
+    await resolveHandleCached("user.bsky.social", resolve);
+    await invalidateBlueskyCache();
+    await resolveHandleCached("user.bsky.social", resolve);
+
+    expect(resolve).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps a bounded number of handles", async () => {
+    const resolve = vi.fn(async () => "did:plc:abc");
+
+    await resolveHandleCached("oldest.bsky.social", resolve);
+    for (let index = 0; index < 1000; index++) {
+      await resolveHandleCached(`user-${index}.bsky.social`, resolve);
+    }
+    resolve.mockClear();
+
+    await resolveHandleCached("user-999.bsky.social", resolve);
+    expect(resolve).not.toHaveBeenCalled();
+    await resolveHandleCached("oldest.bsky.social", resolve);
+    expect(resolve).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not cache a failed lookup", async () => {
+    const resolve = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new Error("Unable to resolve handle"))
+      .mockResolvedValueOnce("did:plc:abc");
+
+    await expect(resolveHandleCached("user.bsky.social", resolve)).rejects.toThrow();
+    await expect(resolveHandleCached("user.bsky.social", resolve)).resolves.toBe("did:plc:abc");
+  });
+});
+
+describe("resolveCacheOptions", () => {
+  it("returns null when caching is off", () => {
+    expect(resolveCacheOptions(undefined)).toBeNull();
+    expect(resolveCacheOptions(false)).toBeNull();
+  });
+
+  it("defaults to memory and a day", () => {
+    expect(resolveCacheOptions(true)).toEqual({
+      storage: "memory",
+      ttl: DEFAULT_CACHE_TTL,
+      maxEntries: DEFAULT_CACHE_MAX_ENTRIES,
+    });
+    expect(resolveCacheOptions({ storage: "indexedDB", maxEntries: 5 })).toEqual({
+      storage: "indexedDB",
+      ttl: DEFAULT_CACHE_TTL,
+      maxEntries: 5,
+    });
+  });
+});
+
+describe("cache stores", () => {
+  const entry = (posts: string[], storedAt = 1000) => ({ value: { posts }, posts, storedAt });
+
+  it("reads entries within the TTL", async () => {
+    const store = getCacheStore("memory");
+    await store.set("thread", entry([POST]));
+
+    expect(await readCache(store, "thread", 60, 1000 + 60_000)).toEqual(entry([POST]));
+    expect(await readCache(store, "thread", 60, 1000 + 60_001)).toBeUndefined();
+    expect(await readCache(store, "missing", 60, 1000)).toBeUndefined();
+    // The expired entry is gone, even for a longer TTL
+    expect(await readCache(store, "thread", 3600, 1000 + 60_001)).toBeUndefined();
+  });
+
+  it("evicts expired and surplus entries when writing", async () => {
+    const store = getCacheStore("memory");
+    await store.set("expired", entry([POST], 1000));
+    await store.set("old", entry([POST], 50_000));
+    await store.set("recent", entry([POST], 60_000));
+    await store.set("newest", entry([POST], 61_000));
+
+    const options = { ttl: 60, maxEntries: 3 };
+    await writeCache(store, "new", entry([OTHER], 62_000), options, 62_000);
+
+    expect((await store.list()).map((item) => item.key).sort()).toEqual([
+      "new",
+      "newest",
+      "recent",
+    ]);
+
+    // Rewriting a key doesn't count it twice
+    await writeCache(store, "new", entry([OTHER], 63_000), options, 63_000);
+    expect(await store.list()).toHaveLength(3);
+  });
+
+  it("falls back to memory without browser storage", () => {
+    expect(getCacheStore("indexedDB")).toBe(getCacheStore("memory"));
+  });
+
+  it("invalidates the threads that include a post", async () => {
+    const store = getCacheStore("memory");
+    await store.set("first", entry([POST]));
+    await store.set("second", entry([OTHER]));
+
+    await invalidateBlueskyCache(POST);
+
+    expect(await store.get("first")).toBeUndefined();
+    expect(await store.get("second")).toEqual(entry([OTHER]));
+  });
+
+  it("keeps threads in localStorage", async () => {
+    const storage = createStorage();
+    storage.setItem("unrelated", "value");
+    vi.stubGlobal("localStorage", storage);
+    const store = getCacheStore("localStorage");
+
+    await store.set("first", entry([POST]));
+    await store.set("second", entry([OTHER]));
+    expect(storage.getItem("bluesky-comments:first")).toBe(JSON.stringify(entry([POST])));
+    expect(await store.get("first")).toEqual(entry([POST]));
+
+    await invalidateBlueskyCache(POST);
+    expect(await store.get("first")).toBeUndefined();
+    expect(await store.get("second")).toEqual(entry([OTHER]));
+
+    await writeCache(store, "third", entry([POST], 2000), { ttl: 60, maxEntries: 1 }, 2000);
+    expect(storage.getItem("bluesky-comments:second")).toBeNull();
+    expect(await readCache(store, "third", 60, 2000 + 60_001)).toBeUndefined();
+    expect(storage.getItem("bluesky-comments:third")).toBeNull();
+
+    await store.set("second", entry([OTHER]));
+    await invalidateBlueskyCache();
+    expect(await store.get("second")).toBeUndefined();
+    expect(storage.getItem("unrelated")).toBe("value");
+  });
+});
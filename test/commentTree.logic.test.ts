@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  countAllReplies,
+  flattenCommentTree,
+  getReplyItems,
+  getTreeKeyAction,
+  hasReply,
+  mergeLoadedReplies,
+} from "../src/runtime/composables/commentTree.logic";
+import { comment } from "./fixtures/comment";
+
+// a
+// ├─ a2 (same author, not indented)
+// ├─ b
+// │  └─ c
+// └─ d
+function tree() {
+  return [
+    comment("a", {
+      did: "did:a",
+      replies: [
+        comment("a2", { did: "did:a" }),
+        comment("b", { replies: [comment("c")] }),
+        comment("d"),
+      ],
+    }),
+    comment("e"),
+  ];
+}
+
+describe("commentTree.logic", () => {
+  it("countAllReplies: counts replies at every depth", () => {
+    expect(countAllReplies(tree()[0]!)).toBe(4);
+  });
+
+  it("getReplyItems: marks the last indented sibling", () => {
+    const items = getReplyItems(tree()[0]!);
+    expect(items.map((i) => [i.reply.id, i.isLastIndentedSibling])).toEqual([
+      ["a2", false],
+      ["b", false],
+      ["d", true],
+    ]);
+  });
+
+  it("getReplyItems: ends the thread line at the last reply within the limit", () => {
+    const items = getReplyItems(tree()[0]!, 2);
+    expect(items.map((i) => [i.reply.id, i.isLastIndentedSibling])).toEqual([
+      ["a2", false],
+      ["b", true],
+    ]);
+  });
+
+  it("flattenCommentTree: walks depth-first with depth and indentation level", () => {
+    const rows = flattenCommentTree(tree());
+    expect(rows.map((r) => [r.comment.id, r.depth, r.level, r.indented])).toEqual([
+      ["a", 0, 0, false],
+      ["a2", 1, 0, false],
+      ["b", 1, 1, true],
+      ["c", 2, 2, true],
+      ["d", 1, 1, true],
+      ["e", 0, 0, false],
+    ]);
+    expect(rows.find((r) => r.comment.id === "b")?.parentAuthorDid).toBe("did:a");
+  });
+
+  it("flattenCommentTree: skips replies of collapsed comments", () => {
+    const rows = flattenCommentTree(tree(), (c) => c.id === "a");
+    expect(rows.map((r) => r.comment.id)).toEqual(["a", "e"]);
+    expect(rows[0]).toMatchObject({ collapsed: true, hiddenReplyCount: 4 });
+
+    // Comments without replies are never reported as collapsed
+    expect(flattenCommentTree([comment("x")], () => true)[0]?.collapsed).toBe(false);
+  });
+
+  it("mergeLoadedReplies: attaches a loaded subtree at the target with shifted depths", () => {
+    const target = { ...comment("b", { depth: 1 }), unloadedReplyCount: 2 };
+    const comments = [comment("a", { replies: [target] })];
+    const loaded = [comment("x", { replies: [comment("y", { depth: 1 })] })];
+
+    const merged = mergeLoadedReplies(comments, target.uri, loaded);
+    const b = merged[0]?.replies[0];
+
+    expect(b?.unloadedReplyCount).toBeUndefined();
+    expect(b?.replies.map((r) => [r.id, r.depth])).toEqual([["x", 2]]);
+    expect(b?.replies[0]?.replies.map((r) => [r.id, r.depth])).toEqual([["y", 3]]);
+    // The input tree is left untouched
+    expect(comments[0]?.replies[0]?.replies).toEqual([]);
+  });
+
+  it("mergeLoadedReplies: promotes same-author replies next to the target when flattening", () => {
+    const target = comment("b", { did: "did:b" });
+    const loaded = [comment("b2", { did: "did:b" }), comment("x")];
+
+    const flat = mergeLoadedReplies([target, comment("c")], target.uri, loaded);
+    expect(flat.map((c) => c.id)).toEqual(["b", "b2", "c"]);
+    expect(flat[1]).toMatchObject({ depth: 0, continuationOf: target.uri });
+    expect(flat[0]?.replies.map((r) => r.id)).toEqual(["x"]);
+
+    const nested = mergeLoadedReplies([target], target.uri, loaded, {
+      flattenSameAuthorThreads: false,
+    });
+    expect(nested[0]?.replies.map((r) => r.id)).toEqual(["b2", "x"]);
+  });
+
+  it("mergeLoadedReplies: replaces a partial set of replies and its continuations", () => {
+    const target = {
+      ...comment("b", { did: "did:b", replies: [comment("x", { depth: 1 })] }),
+      unloadedReplyCount: 2,
+    };
+    const shown = { ...comment("b2", { did: "did:b" }), continuationOf: target.uri };
+    const loaded = [comment("b2", { did: "did:b" }), comment("x"), comment("y")];
+
+    const merged = mergeLoadedReplies([target, shown, comment("c")], target.uri, loaded);
+    expect(merged.map((c) => c.id)).toEqual(["b", "b2", "c"]);
+    expect(merged[0]?.replies.map((r) => r.id)).toEqual(["x", "y"]);
+    expect(merged[0]?.unloadedReplyCount).toBeUndefined();
+  });
+
+  it("mergeLoadedReplies: replaces a whole chain of continuations", () => {
+    const target = { ...comment("x", { did: "did:x" }), unloadedReplyCount: 1 };
+    const x2 = { ...comment("x2", { did: "did:x" }), continuationOf: target.uri };
+    const x3 = { ...comment("x3", { did: "did:x" }), continuationOf: x2.uri };
+    const x4 = { ...comment("x4", { did: "did:x" }), continuationOf: x3.uri };
+    const loaded = [
+      comment("x2", { did: "did:x" }),
+      { ...comment("x3", { did: "did:x" }), continuationOf: x2.uri },
+      { ...comment("x4", { did: "did:x" }), continuationOf: x3.uri },
+      comment("y"),
+    ];
+
+    const merged = mergeLoadedReplies([target, x2, x3, x4, comment("c")], target.uri, loaded);
+    expect(merged.map((c) => c.id)).toEqual(["x", "x2", "x3", "x4", "c"]);
+    expect(merged[0]?.replies.map((r) => r.id)).toEqual(["y"]);
+  });
+
+  it("hasReply: finds replies at every depth", () => {
+    const [a] = tree();
+    expect(hasReply(a!, "at://did:c/app.bsky.feed.post/c")).toBe(true);
+    expect(hasReply(a!, a!.uri)).toBe(false);
+    expect(hasReply(a!, "at://did:e/app.bsky.feed.post/e")).toBe(false);
+  });
+
+  it("getTreeKeyAction: follows the tree pattern on a focused comment", () => {
+    const item = { onItem: true, typing: false, expandable: true, expanded: true };
+    expect(getTreeKeyAction("ArrowDown", item)).toBe("next");
+    expect(getTreeKeyAction("ArrowUp", item)).toBe("previous");
+    expect(getTreeKeyAction("Home", item)).toBe("first");
+    expect(getTreeKeyAction("End", item)).toBe("last");
+    expect(getTreeKeyAction("ArrowRight", item)).toBe("child");
+    expect(getTreeKeyAction("ArrowLeft", item)).toBe("collapse");
+    expect(getTreeKeyAction("ArrowRight", { ...item, expanded: false })).toBe("expand");
+    expect(getTreeKeyAction("ArrowLeft", { ...item, expanded: false })).toBe("parent");
+    expect(getTreeKeyAction("ArrowRight", { ...item, expandable: false })).toBeNull();
+    expect(getTreeKeyAction("ArrowLeft", { ...item, expandable: false })).toBe("parent");
+    expect(getTreeKeyAction("Enter", item)).toBeNull();
+  });
+
+  it("getTreeKeyAction: j/k work inside a comment but not while typing", () => {
+    const inside = { onItem: false, typing: false, expandable: false, expanded: false };
+    expect(getTreeKeyAction("j", inside)).toBe("next");
+    expect(getTreeKeyAction("k", inside)).toBe("previous");
+    expect(getTreeKeyAction("ArrowDown", inside)).toBeNull();
+    expect(getTreeKeyAction("j", { ...inside, typing: true })).toBeNull();
+  });
+});
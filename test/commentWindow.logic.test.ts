@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+
+import { getRenderWindow } from "../src/runtime/composables/commentWindow.logic";
+
+const sizes = [100, 100, 100, 100];
+
+describe("commentWindow.logic", () => {
+  it("getRenderWindow: renders the items overlapping the span", () => {
+    expect(getRenderWindow(sizes, 150, 250)).toEqual({ start: 1, end: 3, before: 100, after: 100 });
+    expect(getRenderWindow(sizes, 0, 100)).toEqual({ start: 0, end: 1, before: 0, after: 300 });
+  });
+
+  it("getRenderWindow: renders everything when the span covers the list", () => {
+    expect(getRenderWindow(sizes, -50, 1000)).toEqual({ start: 0, end: 4, before: 0, after: 0 });
+  });
+
+  it("getRenderWindow: renders nothing when the list is out of the span", () => {
+    // Scrolled past the list
+    expect(getRenderWindow(sizes, 500, 800)).toEqual({ start: 4, end: 4, before: 400, after: 0 });
+    // The list starts below the viewport
+    expect(getRenderWindow(sizes, -800, -100)).toEqual({ start: 0, end: 0, before: 0, after: 400 });
+  });
+
+  it("getRenderWindow: handles items of different sizes", () => {
+    expect(getRenderWindow([50, 400, 50, 50], 100, 300)).toEqual({
+      start: 1,
+      end: 2,
+      before: 50,
+      after: 100,
+    });
+  });
+});
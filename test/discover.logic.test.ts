@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+
+import type { PostView } from "../src/runtime/types";
+import {
+  collectPostLinks,
+  normalizePageUrl,
+  pickDiscoveredPost,
+} from "../src/runtime/composables/discover.logic";
+
+function post(
+  id: string,
+  opts?: { link?: string; reply?: boolean; createdAt?: string; facetLink?: string },
+): PostView {
+  return {
+    uri: `at://did:plc:a/app.bsky.feed.post/${id}`,
+    cid: id,
+    author: { did: "did:plc:a", handle: "a.test" },
+    record: {
+      text: "",
+      createdAt: opts?.createdAt ?? "2020-01-01T00:00:00.000Z",
+      reply: opts?.reply ? { root: {}, parent: {} } : undefined,
+      embed: opts?.link ? { external: { uri: opts.link } } : undefined,
+      facets: opts?.facetLink
+        ? [{ features: [{ $type: "app.bsky.richtext.facet#link", uri: opts.facetLink }] }]
+        : undefined,
+    },
+    indexedAt: "2020-01-01T00:00:00.000Z",
+  } as PostView;
+}
+
+describe("discover.logic", () => {
+  it("normalizePageUrl: drops hash, tracking params and trailing slashes", () => {
+    expect(normalizePageUrl("https://Example.com/blog/post/?utm_source=x&b=2&a=1#top")).toBe(
+      "https://example.com/blog/post?a=1&b=2",
+    );
+    expect(normalizePageUrl("https://example.com/")).toBe("https://example.com");
+    expect(normalizePageUrl(" not a url ")).toBe("not a url");
+  });
+
+  it("collectPostLinks: reads link cards and rich text links", () => {
+    expect(
+      collectPostLinks(post("a", { link: "https://a.test/1", facetLink: "https://a.test/2" })),
+    ).toEqual(["https://a.test/1", "https://a.test/2"]);
+  });
+
+  it("pickDiscoveredPost: prefers linking root posts, then the earliest, regardless of order", () => {
+    const page = "https://example.com/post";
+    const mention = post("mention", { createdAt: "2019-01-01T00:00:00.000Z" });
+    const reply = post("reply", { link: page, reply: true, createdAt: "2019-06-01T00:00:00.000Z" });
+    const later = post("later", { facetLink: `${page}/`, createdAt: "2021-01-01T00:00:00.000Z" });
+    const first = post("first", { link: `${page}?utm_medium=social` });
+
+    const posts = [mention, reply, later, first];
+    expect(pickDiscoveredPost(posts, page)?.cid).toBe("first");
+    expect(pickDiscoveredPost([...posts].reverse(), page)?.cid).toBe("first");
+    expect(pickDiscoveredPost([mention, reply], page)?.cid).toBe("reply");
+    expect(pickDiscoveredPost([], page)).toBeNull();
+  });
+});
@@ -0,0 +1,127 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+const agentMocks = vi.hoisted(() => {
+  return {
+    searchPosts: vi.fn(),
+  };
+});
+
+vi.mock("../src/runtime/composables/atproto", () => {
+  return {
+    DEFAULT_API_SERVICE: "https://public.api.bsky.app",
+    getAtpAgent: vi.fn(async () => ({ app: { bsky: { feed: agentMocks } } })),
+  };
+});
+
+import { discoverBlueskyPost } from "../src/runtime/composables/discover";
+
+function linkingPost(id: string, url: string) {
+  return {
+    uri: `at://did:plc:a/app.bsky.feed.post/${id}`,
+    cid: id,
+    author: { did: "did:plc:a", handle: "a.test" },
+    record: { text: "", createdAt: "2020-01-01T00:00:00.000Z", embed: { external: { uri: url } } },
+    indexedAt: "2020-01-01T00:00:00.000Z",
+  };
+}
+
+describe("discover", () => {
+  afterEach(() => {
+    agentMocks.searchPosts.mockReset();
+    vi.useRealTimers();
+  });
+
+  it("discoverBlueskyPost: searches by normalized URL and caches found posts", async () => {
+    agentMocks.searchPosts.mockResolvedValue({
+      data: { posts: [linkingPost("p1", "https://example.com/found")] },
+    });
+
+    const first = discoverBlueskyPost("https://example.com/found/#comments", { author: "a.test" });
+    const second = discoverBlueskyPost("https://example.com/found", { author: "a.test" });
+    await expect(first).resolves.toBe("at://did:plc:a/app.bsky.feed.post/p1");
+    await expect(second).resolves.toBe("at://did:plc:a/app.bsky.feed.post/p1");
+    await discoverBlueskyPost("https://example.com/found", { author: "a.test" });
+
+    // Concurrent and later lookups share one search
+    expect(agentMocks.searchPosts).toHaveBeenCalledTimes(1);
+    expect(agentMocks.searchPosts.mock.calls[0]?.[0]).toMatchObject({
+      url: "https://example.com/found",
+      author: "a.test",
+    });
+  });
+
+  it("discoverBlueskyPost: retries misses after a while", async () => {
+    vi.useFakeTimers();
+    agentMocks.searchPosts.mockResolvedValue({ data: { posts: [] } });
+
+    await expect(discoverBlueskyPost("https://example.com/missing")).resolves.toBeNull();
+    await discoverBlueskyPost("https://example.com/missing");
+    expect(agentMocks.searchPosts).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(10 * 60 * 1000);
+    await discoverBlueskyPost("https://example.com/missing");
+    expect(agentMocks.searchPosts).toHaveBeenCalledTimes(2);
+  });
+
+  it("discoverBlueskyPost: looks found posts up again after an hour", async () => {
+    vi.useFakeTimers();
+    agentMocks.searchPosts.mockResolvedValue({
+      data: { posts: [linkingPost("p1", "https://example.com/expiring")] },
+    });
+
+    await discoverBlueskyPost("https://example.com/expiring");
+    vi.advanceTimersByTime(30 * 60 * 1000);
+    await discoverBlueskyPost("https://example.com/expiring");
+    expect(agentMocks.searchPosts).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(31 * 60 * 1000);
+    await discoverBlueskyPost("https://example.com/expiring");
+    expect(agentMocks.searchPosts).toHaveBeenCalledTimes(2);
+  });
+
+  it("discoverBlueskyPost: drops the oldest lookups past the cache size", async () => {
+    agentMocks.searchPosts.mockResolvedValue({ data: { posts: [] } });
+
+    await discoverBlueskyPost("https://example.com/oldest");
+    for (let page = 0; page < 500; page++) {
+      await discoverBlueskyPost(`https://example.com/page-${page}`);
+    }
+    agentMocks.searchPosts.mockClear();
+
+    await discoverBlueskyPost("https://example.com/page-499");
+    expect(agentMocks.searchPosts).not.toHaveBeenCalled();
+    await discoverBlueskyPost("https://example.com/oldest");
+    expect(agentMocks.searchPosts).toHaveBeenCalledTimes(1);
+  });
+
+  it("discoverBlueskyPost: keeps searching for the callers that did not abort", async () => {
+    let searchSignal: AbortSignal | undefined;
+    let respond!: (value: unknown) => void;
+    agentMocks.searchPosts.mockImplementation((_params, { signal }) => {
+      searchSignal = signal;
+      return new Promise((resolve) => (respond = resolve));
+    });
+    const aborted = new AbortController();
+
+    const first = discoverBlueskyPost("https://example.com/shared", { signal: aborted.signal });
+    const second = discoverBlueskyPost("https://example.com/shared");
+    // Let the search start
+    await vi.waitFor(() => expect(searchSignal).toBeDefined());
+
+    aborted.abort(new Error("aborted"));
+    await expect(first).rejects.toThrow("aborted");
+    expect(searchSignal?.aborted).toBe(false);
+
+    respond({ data: { posts: [linkingPost("p2", "https://example.com/shared")] } });
+    await expect(second).resolves.toBe("at://did:plc:a/app.bsky.feed.post/p2");
+  });
+
+  it("discoverBlueskyPost: doesn't cache failures", async () => {
+    agentMocks.searchPosts.mockRejectedValueOnce(new Error("boom"));
+    await expect(discoverBlueskyPost("https://example.com/error")).rejects.toThrow("boom");
+
+    agentMocks.searchPosts.mockResolvedValue({ data: { posts: [] } });
+    await expect(discoverBlueskyPost("https://example.com/error")).resolves.toBeNull();
+    expect(agentMocks.searchPosts).toHaveBeenCalledTimes(2);
+  });
+});
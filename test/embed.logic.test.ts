@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+
+import { processEmbed } from "../src/runtime/composables/embed.logic";
+
+const images = {
+  $type: "app.bsky.embed.images#view",
+  images: [
+    {
+      thumb: "https://cdn.test/thumb.jpg",
+      fullsize: "https://cdn.test/full.jpg",
+      alt: "A cat",
+      aspectRatio: { width: 4, height: 3 },
+    },
+  ],
+};
+
+const quotedPost = {
+  $type: "app.bsky.embed.record#viewRecord",
+  uri: "at://did:plc:q/app.bsky.feed.post/q1",
+  cid: "q1",
+  author: { did: "did:plc:q", handle: "q.test", displayName: "Q" },
+  value: { text: "quoted text", createdAt: "2020-01-01T00:00:00.000Z" },
+  indexedAt: "2020-01-02T00:00:00.000Z",
+};
+
+describe("embed.logic", () => {
+  it("processEmbed: returns undefined for missing or unknown embeds", () => {
+    expect(processEmbed(undefined)).toBeUndefined();
+    expect(processEmbed({ $type: "app.bsky.embed.unknown#view" })).toBeUndefined();
+  });
+
+  it("processEmbed: maps images with alt text", () => {
+    expect(processEmbed(images)).toEqual({
+      type: "images",
+      images: [
+        {
+          thumb: "https://cdn.test/thumb.jpg",
+          fullsize: "https://cdn.test/full.jpg",
+          alt: "A cat",
+          aspectRatio: { width: 4, height: 3 },
+        },
+      ],
+    });
+  });
+
+  it("processEmbed: maps external link cards and videos", () => {
+    expect(
+      processEmbed({
+        $type: "app.bsky.embed.external#view",
+        external: { uri: "https://example.com", title: "Example", description: "Desc" },
+      }),
+    ).toEqual({
+      type: "external",
+      external: { uri: "https://example.com", title: "Example", description: "Desc" },
+    });
+
+    expect(
+      processEmbed({
+        $type: "app.bsky.embed.video#view",
+        cid: "v",
+        playlist: "https://video.test/playlist.m3u8",
+        thumbnail: "https://video.test/thumb.jpg",
+      }),
+    ).toEqual({
+      type: "video",
+      video: {
+        playlist: "https://video.test/playlist.m3u8",
+        thumbnail: "https://video.test/thumb.jpg",
+      },
+    });
+  });
+
+  it("processEmbed: drops link cards with unsafe links", () => {
+    const card = {
+      $type: "app.bsky.embed.external#view",
+      external: { uri: "javascript:alert(1)", title: "Example", description: "Desc" },
+    };
+    expect(processEmbed(card)).toBeUndefined();
+
+    // A quote with an unsafe card keeps the quoted post
+    expect(
+      processEmbed({
+        $type: "app.bsky.embed.recordWithMedia#view",
+        record: { record: quotedPost },
+        media: card,
+      }),
+    ).toMatchObject({ type: "record" });
+  });
+
+  it("processEmbed: maps quoted posts and record with media", () => {
+    const record = { type: "post", uri: quotedPost.uri, text: "quoted text" };
+
+    expect(processEmbed({ $type: "app.bsky.embed.record#view", record: quotedPost })).toEqual({
+      type: "record",
+      record: expect.objectContaining(record),
+    });
+
+    expect(
+      processEmbed({
+        $type: "app.bsky.embed.recordWithMedia#view",
+        record: { record: quotedPost },
+        media: images,
+      }),
+    ).toEqual({
+      type: "recordWithMedia",
+      record: expect.objectContaining(record),
+      media: expect.objectContaining({ type: "images" }),
+    });
+  });
+
+  it("processEmbed: falls back for blocked, deleted, detached and unsupported quotes", () => {
+    const uri = "at://did:plc:q/app.bsky.feed.post/q1";
+    const reasonFor = (type: string) => {
+      const embed = processEmbed({
+        $type: "app.bsky.embed.record#view",
+        record: { $type: type, uri },
+      });
+      return embed?.type === "record" && embed.record.type === "unavailable"
+        ? embed.record.reason
+        : null;
+    };
+
+    expect(reasonFor("app.bsky.embed.record#viewBlocked")).toBe("blocked");
+    expect(reasonFor("app.bsky.embed.record#viewNotFound")).toBe("notFound");
+    expect(reasonFor("app.bsky.embed.record#viewDetached")).toBe("detached");
+    expect(reasonFor("app.bsky.feed.defs#generatorView")).toBe("unsupported");
+  });
+});
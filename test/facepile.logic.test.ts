@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+
+import { avatarInitial, summarizeActors } from "../src/runtime/composables/facepile.logic";
+
+const actor = (handle: string) => ({ did: `did:plc:${handle}`, handle });
+
+describe("facepile.logic", () => {
+  it("summarizeActors: names the first accounts and counts the rest", () => {
+    const actors = [actor("alice.test"), actor("bob.test"), actor("carol.test")];
+
+    expect(summarizeActors(actors, 242)).toEqual({
+      names: ["@alice.test", "@bob.test"],
+      others: 240,
+    });
+    expect(summarizeActors(actors.slice(0, 1), 1)).toEqual({ names: ["@alice.test"], others: 0 });
+  });
+
+  it("summarizeActors: never counts fewer accounts than loaded", () => {
+    // The count can lag behind the list
+    expect(summarizeActors([actor("a"), actor("b"), actor("c")], 2).others).toBe(1);
+  });
+
+  it("avatarInitial: uses the handle, then the display name", () => {
+    expect(avatarInitial({ handle: "alice.test" })).toBe("A");
+    expect(avatarInitial({ handle: "", displayName: "bob" })).toBe("B");
+    expect(avatarInitial({})).toBe("?");
+  });
+});
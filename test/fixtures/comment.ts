@@ -0,0 +1,27 @@
+import type { FlattenedComment } from "../../src/runtime/types";
+
+/**
+ * Comment for tests: `id` sets the rkey and, unless `did` is given, the author.
+ * `replyCount` defaults to the number of `replies`; any other field can be overridden.
+ */
+export function comment(
+  id: string,
+  overrides: Partial<FlattenedComment> & { did?: string } = {},
+): FlattenedComment {
+  const { did = `did:${id}`, ...fields } = overrides;
+  return {
+    id,
+    uri: `at://${did}/app.bsky.feed.post/${id}`,
+    author: { did, handle: `${id}.test` },
+    text: "",
+    segments: [],
+    createdAt: "2020-01-01T00:00:00.000Z",
+    likeCount: 0,
+    replyCount: fields.replies?.length ?? 0,
+    repostCount: 0,
+    depth: 0,
+    replies: [],
+    labels: [],
+    ...fields,
+  };
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  createBlueskyI18n,
+  normalizeLocale,
+  resolveMessages,
+} from "../src/runtime/composables/i18n.logic";
+import { BUILT_IN_MESSAGES } from "../src/runtime/locales";
+
+describe("i18n.logic", () => {
+  it("built-in catalogues define every English message", () => {
+    const keys = Object.keys(BUILT_IN_MESSAGES.en!).sort();
+    for (const messages of Object.values(BUILT_IN_MESSAGES)) {
+      expect(Object.keys(messages).sort()).toEqual(keys);
+    }
+  });
+
+  it("normalizeLocale: canonicalizes tags and falls back to English", () => {
+    expect(normalizeLocale("de-at")).toBe("de-AT");
+    expect(normalizeLocale(undefined)).toBe("en");
+    expect(normalizeLocale("not a locale!")).toBe("en");
+  });
+
+  it("resolveMessages: falls back from region to language to English, with custom overrides", () => {
+    const messages = resolveMessages("de-AT", {
+      en: { show: "Reveal" },
+      "de-AT": { comments: "Kommentare (AT)" },
+    });
+    expect(messages.comments).toBe("Kommentare (AT)");
+    expect(messages.empty).toBe(BUILT_IN_MESSAGES.de!.empty);
+
+    expect(resolveMessages("fr", { en: { show: "Reveal" } }).show).toBe("Reveal");
+  });
+
+  it("t: interpolates parameters and keeps unknown placeholders", () => {
+    const { t } = createBlueskyI18n("en");
+    expect(t("contentWarning", { labels: "nudity" })).toBe("Content warning: nudity");
+    expect(t("replyCta")).toBe("Reply on Bluesky {link} to join the conversation.");
+  });
+
+  it("t: selects plural forms with Intl.PluralRules", () => {
+    const en = createBlueskyI18n("en");
+    expect(en.t("moreComments", { count: 1 })).toBe("1 more comment");
+    expect(en.t("moreComments", { count: 3 })).toBe("3 more comments");
+
+    const pl = createBlueskyI18n("pl");
+    expect(pl.t("likes", { count: 1 })).toBe("1 polubienie");
+    expect(pl.t("likes", { count: 3 })).toBe("3 polubienia");
+    expect(pl.t("likes", { count: 5 })).toBe("5 polubień");
+    expect(pl.t("likes", { count: 22 })).toBe("22 polubienia");
+
+    expect(createBlueskyI18n("ja").t("replies", { count: 2 })).toBe("2件の返信");
+  });
+
+  it("formatCount: uses compact locale-aware notation", () => {
+    expect(createBlueskyI18n("en").formatCount(1234)).toBe("1.2K");
+    expect(createBlueskyI18n("en").formatCount(999)).toBe("999");
+    expect(createBlueskyI18n("en").t("likes", { count: 2_500_000 })).toBe("2.5M likes");
+  });
+
+  it("formatRelativeTime: picks the largest unit and localizes it", () => {
+    const now = new Date("2024-06-15T12:00:00.000Z");
+    const { formatRelativeTime } = createBlueskyI18n("en");
+    const rtf = new Intl.RelativeTimeFormat("en", { style: "narrow", numeric: "auto" });
+
+    expect(formatRelativeTime("2024-06-15T11:59:30.000Z", now)).toBe(rtf.format(0, "second"));
+    expect(formatRelativeTime("2024-06-15T09:00:00.000Z", now)).toBe(rtf.format(-3, "hour"));
+    expect(formatRelativeTime("2024-06-01T12:00:00.000Z", now)).toBe(rtf.format(-2, "week"));
+    expect(formatRelativeTime("2022-06-01T12:00:00.000Z", now)).toBe(rtf.format(-2, "year"));
+
+    const de = new Intl.RelativeTimeFormat("de", { style: "narrow", numeric: "auto" });
+    expect(createBlueskyI18n("de").formatRelativeTime("2024-06-12T12:00:00.000Z", now)).toBe(
+      de.format(-3, "day"),
+    );
+  });
+
+  it("formatList: joins with the locale's conjunction", () => {
+    expect(createBlueskyI18n("de").formatList(["a", "b", "c"])).toBe("a, b und c");
+  });
+});
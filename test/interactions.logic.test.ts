@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  clearViewerState,
+  countGraphemes,
+  createLocalReply,
+  insertReply,
+  removeComment,
+  setViewerLike,
+  updateComment,
+} from "../src/runtime/composables/interactions.logic";
+import { comment } from "./fixtures/comment";
+
+const viewer = { did: "did:me", handle: "me.test" };
+
+describe("interactions.logic", () => {
+  it("countGraphemes: counts user-perceived characters", () => {
+    expect(countGraphemes("hello")).toBe(5);
+    expect(countGraphemes("👍🏽🇵🇱")).toBe(2);
+  });
+
+  it("setViewerLike: adjusts the like count once per state change", () => {
+    const liked = setViewerLike(comment("a", { likeCount: 2 }), "pending");
+    expect(liked).toMatchObject({ viewerLike: "pending", likeCount: 3 });
+    // Replacing the placeholder with the record URI keeps the count
+    expect(setViewerLike(liked, "at://did:me/app.bsky.feed.like/1").likeCount).toBe(3);
+    expect(setViewerLike(liked, undefined)).toMatchObject({ viewerLike: undefined, likeCount: 2 });
+  });
+
+  it("updateComment: replaces nested comments without mutating the tree", () => {
+    const tree = [comment("a", { replies: [comment("b")] })];
+    const updated = updateComment(tree, tree[0]!.replies[0]!.uri, (c) => ({ ...c, likeCount: 7 }));
+
+    expect(updated[0]?.replies[0]?.likeCount).toBe(7);
+    expect(tree[0]?.replies[0]?.likeCount).toBe(0);
+  });
+
+  it("clearViewerState: drops like state at every depth", () => {
+    const tree = [comment("a", { viewerLike: "x", replies: [comment("b", { viewerLike: "y" })] })];
+    const cleared = clearViewerState(tree);
+
+    expect(cleared[0]?.viewerLike).toBeUndefined();
+    expect(cleared[0]?.replies[0]?.viewerLike).toBeUndefined();
+  });
+
+  it("insertReply / removeComment: optimistic replies at the top level and under a comment", () => {
+    const parent = comment("a");
+    const topLevel = createLocalReply("hi", viewer);
+    const nested = createLocalReply("hi @a.test", viewer, parent);
+
+    expect(topLevel).toMatchObject({ depth: 0, localState: "pending", author: viewer });
+    expect(nested).toMatchObject({ depth: 1, parentAuthorDid: "did:a" });
+    expect(nested.uri).not.toBe(topLevel.uri);
+
+    let tree = insertReply([parent], topLevel);
+    tree = insertReply(tree, nested, parent.uri);
+    expect(tree.map((c) => c.id)).toEqual([topLevel.id, "a"]);
+    expect(tree[1]).toMatchObject({ replyCount: 1, replies: [nested] });
+
+    tree = removeComment(tree, nested.uri);
+    tree = removeComment(tree, topLevel.uri);
+    expect(tree).toEqual([{ ...parent, replyCount: 0, replies: [] }]);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  countNewComments,
+  getJetstreamReplyRoot,
+  mergeThreadUpdate,
+  nextPollInterval,
+  resolveLiveOptions,
+} from "../src/runtime/composables/live.logic";
+import { comment } from "./fixtures/comment";
+
+describe("resolveLiveOptions", () => {
+  it("is null when live updates are off", () => {
+    expect(resolveLiveOptions(undefined)).toBeNull();
+    expect(resolveLiveOptions(false)).toBeNull();
+  });
+
+  it("polls by default", () => {
+    expect(resolveLiveOptions(true)).toEqual({
+      mode: "poll",
+      interval: 30_000,
+      maxInterval: 300_000,
+    });
+    expect(resolveLiveOptions("jetstream")?.mode).toBe("jetstream");
+  });
+
+  it("keeps the backoff ceiling above the interval", () => {
+    expect(resolveLiveOptions({ interval: 600_000 })?.maxInterval).toBe(600_000);
+  });
+});
+
+describe("countNewComments", () => {
+  it("counts comments with unseen URIs at any depth", () => {
+    const current = [comment("a", { replies: [comment("b")] })];
+    const incoming = [
+      comment("a", { replies: [comment("b", { replies: [comment("c")] })] }),
+      comment("d"),
+    ];
+
+    expect(countNewComments(current, incoming)).toBe(2);
+    expect(countNewComments(incoming, current)).toBe(0);
+  });
+});
+
+describe("mergeThreadUpdate", () => {
+  it("takes counts and new replies from the refetched tree", () => {
+    const current = [comment("a", { likeCount: 1 })];
+    const incoming = [comment("a", { likeCount: 5, replies: [comment("b")] }), comment("c")];
+
+    const merged = mergeThreadUpdate(current, incoming);
+
+    expect(merged.map((c) => c.id)).toEqual(["a", "c"]);
+    expect(merged[0]?.likeCount).toBe(5);
+    expect(merged[0]?.replies.map((c) => c.id)).toEqual(["b"]);
+  });
+
+  it("keeps branches loaded below the fetched depth", () => {
+    const current = [comment("a", { replies: [comment("b")] })];
+    const incoming = [comment("a", { unloadedReplyCount: 1 })];
+
+    const merged = mergeThreadUpdate(current, incoming);
+
+    expect(merged[0]?.replies.map((c) => c.id)).toEqual(["b"]);
+    expect(merged[0]?.unloadedReplyCount).toBeUndefined();
+  });
+});
+
+describe("nextPollInterval", () => {
+  const options = { base: 1000, max: 5000 };
+
+  it("resets when new comments arrive", () => {
+    expect(nextPollInterval(4000, { ...options, foundNew: true, hidden: false })).toBe(1000);
+  });
+
+  it("backs off while nothing changes or the page is hidden", () => {
+    expect(nextPollInterval(1000, { ...options, foundNew: false, hidden: false })).toBe(2000);
+    expect(nextPollInterval(4000, { ...options, foundNew: false, hidden: true })).toBe(5000);
+  });
+});
+
+describe("getJetstreamReplyRoot", () => {
+  const root = "at://did:plc:author/app.bsky.feed.post/root";
+  const event = (operation: string, rootUri: string) => ({
+    did: "did:plc:replier",
+    time_us: 1,
+    kind: "commit",
+    commit: {
+      operation,
+      collection: "app.bsky.feed.post",
+      rkey: "abc",
+      record: { text: "hi", reply: { root: { uri: rootUri }, parent: { uri: rootUri } } },
+    },
+  });
+
+  it("returns the root post of new replies", () => {
+    expect(getJetstreamReplyRoot(event("create", root))).toBe(root);
+  });
+
+  it("ignores deletes, top-level posts and non-commit events", () => {
+    expect(getJetstreamReplyRoot(event("delete", root))).toBeNull();
+    const post = event("create", root);
+    delete (post.commit.record as { reply?: unknown }).reply;
+    expect(getJetstreamReplyRoot(post)).toBeNull();
+    expect(getJetstreamReplyRoot({ kind: "identity" })).toBeNull();
+    expect(getJetstreamReplyRoot(null)).toBeNull();
+  });
+});
@@ -0,0 +1,247 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  startPolling,
+  subscribeJetstream,
+  subscribeLiveRoute,
+} from "../src/runtime/composables/liveUpdates";
+import { watchReplies } from "../src/runtime/server/utils/jetstreamRelay";
+
+/**
+ * Local WebSocket stand-in: records instances and lets tests push messages
+ */
+class FakeWebSocket extends EventTarget {
+  static instances: FakeWebSocket[] = [];
+  closed = false;
+
+  constructor(public url: string) {
+    super();
+    FakeWebSocket.instances.push(this);
+  }
+
+  receive(data: unknown) {
+    this.dispatchEvent(new MessageEvent("message", { data: JSON.stringify(data) }));
+  }
+
+  drop() {
+    this.dispatchEvent(new Event("close"));
+  }
+
+  close() {
+    this.closed = true;
+    this.dispatchEvent(new Event("close"));
+  }
+}
+
+/**
+ * Local EventSource stand-in for the live route
+ */
+class FakeEventSource extends EventTarget {
+  static readonly CLOSED = 2;
+  static instances: FakeEventSource[] = [];
+  readyState = 1;
+
+  constructor(public url: string) {
+    super();
+    FakeEventSource.instances.push(this);
+  }
+
+  close() {
+    this.readyState = FakeEventSource.CLOSED;
+  }
+}
+
+const ROOT = "at://did:plc:author/app.bsky.feed.post/root";
+const OTHER = "at://did:plc:other/app.bsky.feed.post/x";
+
+function reply(rootUri: string, time = 1) {
+  return {
+    did: "did:plc:replier",
+    time_us: time,
+    kind: "commit",
+    commit: {
+      operation: "create",
+      collection: "app.bsky.feed.post",
+      rkey: "abc",
+      record: { text: "hi", reply: { root: { uri: rootUri }, parent: { uri: rootUri } } },
+    },
+  };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  FakeWebSocket.instances = [];
+  FakeEventSource.instances = [];
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("subscribeJetstream", () => {
+  function subscribe(onReply = vi.fn()) {
+    const stop = subscribeJetstream({
+      url: "wss://jetstream.test/subscribe",
+      onReply,
+      WebSocket: FakeWebSocket as unknown as typeof WebSocket,
+    });
+    return { stop, onReply };
+  }
+
+  it("subscribes to post commits and reports the root of each reply", () => {
+    const { onReply } = subscribe();
+    const socket = FakeWebSocket.instances[0]!;
+
+    expect(socket.url).toBe("wss://jetstream.test/subscribe?wantedCollections=app.bsky.feed.post");
+
+    socket.dispatchEvent(new MessageEvent("message", { data: "not json" }));
+    expect(onReply).not.toHaveBeenCalled();
+
+    socket.receive(reply(ROOT));
+    expect(onReply).toHaveBeenCalledExactlyOnceWith(ROOT);
+  });
+
+  it("reconnects from the last event after the connection drops", () => {
+    subscribe();
+    FakeWebSocket.instances[0]!.receive(reply(OTHER, 42));
+    FakeWebSocket.instances[0]!.drop();
+
+    vi.advanceTimersByTime(1000);
+
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    expect(new URL(FakeWebSocket.instances[1]!.url).searchParams.get("cursor")).toBe("42");
+  });
+
+  it("closes without reconnecting when stopped", () => {
+    const { stop } = subscribe();
+    stop();
+    vi.advanceTimersByTime(60_000);
+
+    expect(FakeWebSocket.instances[0]!.closed).toBe(true);
+    expect(FakeWebSocket.instances).toHaveLength(1);
+  });
+});
+
+describe("watchReplies", () => {
+  const url = "wss://jetstream.test/subscribe";
+
+  beforeEach(() => {
+    vi.stubGlobal("WebSocket", FakeWebSocket);
+  });
+
+  it("shares one Jetstream connection and notifies the watchers of the thread", () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    const stopFirst = watchReplies(url, [ROOT], first);
+    const stopSecond = watchReplies(url, [OTHER], second);
+    expect(FakeWebSocket.instances).toHaveLength(1);
+
+    FakeWebSocket.instances[0]!.receive(reply(ROOT));
+    expect(first).toHaveBeenCalledOnce();
+    expect(second).not.toHaveBeenCalled();
+
+    stopFirst();
+    expect(FakeWebSocket.instances[0]!.closed).toBe(false);
+    stopSecond();
+    expect(FakeWebSocket.instances[0]!.closed).toBe(true);
+  });
+});
+
+describe("subscribeLiveRoute", () => {
+  function subscribe() {
+    const onReply = vi.fn();
+    const onUnavailable = vi.fn();
+    const stop = subscribeLiveRoute({
+      url: "/api/_bluesky/live?uri=x",
+      onReply,
+      onUnavailable,
+      EventSource: FakeEventSource as unknown as typeof EventSource,
+    });
+    return { stop, onReply, onUnavailable, source: FakeEventSource.instances[0]! };
+  }
+
+  it("reports relayed replies until stopped", () => {
+    const { stop, onReply, source } = subscribe();
+
+    source.dispatchEvent(new MessageEvent("reply"));
+    expect(onReply).toHaveBeenCalledOnce();
+
+    stop();
+    expect(source.readyState).toBe(FakeEventSource.CLOSED);
+  });
+
+  it("gives up only when the server refuses the stream", () => {
+    const { onUnavailable, source } = subscribe();
+
+    // Network errors: EventSource reconnects by itself
+    source.dispatchEvent(new Event("error"));
+    expect(onUnavailable).not.toHaveBeenCalled();
+
+    source.readyState = FakeEventSource.CLOSED;
+    source.dispatchEvent(new Event("error"));
+    expect(onUnavailable).toHaveBeenCalledOnce();
+  });
+});
+
+describe("startPolling", () => {
+  it("backs off while nothing changes and resets on new comments", async () => {
+    const results = [false, false, true, false];
+    const check = vi.fn(async () => results.shift() ?? false);
+    const stop = startPolling({ interval: 1000, maxInterval: 3000, check });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(check).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(check).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(check).toHaveBeenCalledTimes(3);
+    // New comments found: back to the base interval
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(check).toHaveBeenCalledTimes(4);
+
+    stop();
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(check).toHaveBeenCalledTimes(4);
+  });
+
+  it("keeps polling after a failed check", async () => {
+    const check = vi.fn().mockRejectedValueOnce(new Error("offline")).mockResolvedValue(false);
+    const stop = startPolling({ interval: 1000, maxInterval: 5000, check });
+
+    await vi.advanceTimersByTimeAsync(1000 + 2000);
+    expect(check).toHaveBeenCalledTimes(2);
+    stop();
+  });
+
+  it("runs a single polling loop when the page becomes visible during a check", async () => {
+    const page = Object.assign(new EventTarget(), { visibilityState: "visible" });
+    vi.stubGlobal("document", page);
+    const toggleVisibility = () => {
+      for (const state of ["hidden", "visible"]) {
+        page.visibilityState = state;
+        page.dispatchEvent(new Event("visibilitychange"));
+      }
+    };
+    let respond!: (foundNew: boolean) => void;
+    const check = vi
+      .fn<() => Promise<boolean>>()
+      .mockImplementationOnce(() => new Promise((resolve) => (respond = resolve)))
+      .mockResolvedValue(false);
+    const stop = startPolling({ interval: 1000, maxInterval: 1000, check });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(check).toHaveBeenCalledTimes(1);
+    toggleVisibility();
+    toggleVisibility();
+    expect(check).toHaveBeenCalledTimes(1);
+
+    respond(false);
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(check).toHaveBeenCalledTimes(4);
+
+    stop();
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(check).toHaveBeenCalledTimes(4);
+  });
+});
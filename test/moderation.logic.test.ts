@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  applyModeration,
+  collectLabels,
+  containsMutedWord,
+  moderateComment,
+} from "../src/runtime/composables/moderation.logic";
+import { comment } from "./fixtures/comment";
+
+describe("moderation.logic", () => {
+  it("collectLabels: merges post and author labels, ignoring negations", () => {
+    expect(
+      collectLabels({
+        labels: [{ val: "spam" }, { val: "nudity", neg: true }],
+        author: { labels: [{ val: "spam" }, { val: "gore" }] },
+      }),
+    ).toEqual(["spam", "gore"]);
+  });
+
+  it("containsMutedWord: matches whole words, hashtags and phrases case-insensitively", () => {
+    expect(containsMutedWord("Buy CRYPTO now", ["crypto"])).toBe(true);
+    expect(containsMutedWord("cryptography is fun", ["crypto"])).toBe(false);
+    expect(containsMutedWord("so #Spoilers here", ["#spoilers"])).toBe(true);
+    expect(containsMutedWord("the Big Game tonight", ["big game"])).toBe(true);
+    expect(containsMutedWord("anything", ["  "])).toBe(false);
+  });
+
+  it("moderateComment: muted accounts and words hide, labels follow actions", () => {
+    expect(moderateComment(comment("a"), { mutedDids: ["did:a"] }).action).toBe("hide");
+    expect(moderateComment(comment("a", { text: "spoiler" }), { mutedWords: ["spoiler"] })).toEqual(
+      {
+        action: "hide",
+        labels: [],
+      },
+    );
+    expect(moderateComment(comment("a", { labels: ["porn"] })).action).toBe("hide");
+    expect(moderateComment(comment("a", { labels: ["nudity", "custom"] }))).toEqual({
+      action: "blur",
+      labels: ["nudity"],
+    });
+    expect(
+      moderateComment(comment("a", { labels: ["porn", "custom"] }), {
+        labelActions: { porn: "show", custom: "blur" },
+      }),
+    ).toEqual({ action: "blur", labels: ["custom"] });
+  });
+
+  it("applyModeration: removes hidden subtrees and continuations, counting them", () => {
+    const child = comment("child");
+    const hidden = comment("hidden", { labels: ["spam"], replies: [child] });
+    const continuation = comment("cont", { did: "did:hidden", continuationOf: hidden.uri });
+    const visible = comment("visible", {
+      replies: [comment("nested", { labels: ["gore"] })],
+    });
+
+    const out = applyModeration([hidden, continuation, visible]);
+
+    expect(out.comments.map((c) => c.id)).toEqual(["visible"]);
+    expect(out.comments[0]?.replies).toEqual([]);
+    expect(out.hiddenCount).toBe(4);
+  });
+
+  it("applyModeration: marks blurred comments without removing replies", () => {
+    const out = applyModeration([
+      comment("warn", { labels: ["graphic-media"], replies: [comment("reply")] }),
+    ]);
+
+    expect(out.hiddenCount).toBe(0);
+    expect(out.comments[0]?.moderation).toEqual({ action: "blur", labels: ["graphic-media"] });
+    expect(out.comments[0]?.replies.map((c) => c.id)).toEqual(["reply"]);
+  });
+
+  it("applyModeration: hides or collapses replies hidden by the thread author", () => {
+    const hiddenByAuthor = comment("gated", { replies: [comment("under")] });
+    const threadgate = { hiddenReplies: [hiddenByAuthor.uri] };
+
+    expect(applyModeration([hiddenByAuthor], {}, { ...threadgate, mode: "hide" })).toEqual({
+      comments: [],
+      hiddenCount: 2,
+    });
+
+    const collapsed = applyModeration([hiddenByAuthor], {}, { ...threadgate, mode: "collapse" });
+    expect(collapsed.comments[0]?.moderation).toEqual({
+      action: "blur",
+      labels: [],
+      hiddenByAuthor: true,
+    });
+
+    const shown = applyModeration([hiddenByAuthor], {}, { ...threadgate, mode: "show" });
+    expect(shown.comments[0]?.moderation).toBeUndefined();
+  });
+});
@@ -4,6 +4,9 @@ const kitMocks = vi.hoisted(() => {
   return {
     addComponentsDir: vi.fn(),
     addImports: vi.fn(),
+    addPlugin: vi.fn(),
+    addServerHandler: vi.fn(),
+    logger: { warn: vi.fn() },
     createResolver: vi.fn(() => ({
       resolve: (p: string) => p,
     })),
@@ -15,23 +18,38 @@ vi.mock("@nuxt/kit", () => {
     defineNuxtModule: <T>(def: T) => def,
     addComponentsDir: kitMocks.addComponentsDir,
     addImports: kitMocks.addImports,
+    addPlugin: kitMocks.addPlugin,
+    addServerHandler: kitMocks.addServerHandler,
     createResolver: kitMocks.createResolver,
+    useLogger: () => kitMocks.logger,
   };
 });
 
 import moduleDef from "../src/module";
+import { snapshotPrerenderRoute } from "../src/runtime/composables/snapshot.logic";
 
 type NuxtMock = {
+  hook: ReturnType<typeof vi.fn>;
   options: {
     build: {
       transpile: string[];
     };
+    runtimeConfig: {
+      public: Record<string, unknown>;
+    };
   };
 };
 
+function createNuxtMock(): NuxtMock {
+  return {
+    hook: vi.fn(),
+    options: { build: { transpile: [] }, runtimeConfig: { public: {} } },
+  };
+}
+
 describe("nuxt module wiring", () => {
   it("registers components dir + composable import and transpiles @atproto/api", async () => {
-    const nuxt: NuxtMock = { options: { build: { transpile: [] } } };
+    const nuxt = createNuxtMock();
 
     // moduleDef is the object returned by defineNuxtModule (mocked to identity)
     // @ts-expect-error: runtime module definition shape
@@ -50,6 +68,177 @@ describe("nuxt module wiring", () => {
         from: "./runtime/composables/useBlueskyComments",
       }),
     );
+    expect(kitMocks.addPlugin).toHaveBeenCalledWith("./runtime/plugin");
+    expect(kitMocks.addServerHandler).not.toHaveBeenCalled();
     // expect(nuxt.options.build.transpile).toContain("@atproto/api");
   });
+
+  it("exposes apiService through public runtime config", async () => {
+    const nuxt = createNuxtMock();
+
+    // @ts-expect-error: runtime module definition shape
+    await moduleDef.setup({ apiService: "https://appview.example.com" }, nuxt);
+
+    expect(nuxt.options.runtimeConfig.public.blueskyComments).toEqual({
+      apiService: "https://appview.example.com",
+    });
+  });
+
+  it("keeps runtime config values set by the user", async () => {
+    const nuxt = createNuxtMock();
+    nuxt.options.runtimeConfig.public.blueskyComments = { apiService: "https://staging.example" };
+
+    // @ts-expect-error: runtime module definition shape
+    await moduleDef.setup({ apiService: "https://public.api.bsky.app" }, nuxt);
+
+    expect(nuxt.options.runtimeConfig.public.blueskyComments).toEqual({
+      apiService: "https://staging.example",
+    });
+  });
+
+  it("pins the esm.sh source to the installed @atproto/api version", async () => {
+    const nuxt = createNuxtMock();
+    const { version } = await import("@atproto/api/package.json");
+
+    // @ts-expect-error: runtime module definition shape
+    await moduleDef.setup({ atprotoSource: "esm.sh" }, nuxt);
+
+    expect(nuxt.options.runtimeConfig.public.blueskyComments).toEqual({
+      atprotoSource: "esm.sh",
+      atprotoCdnUrl: `https://esm.sh/@atproto/api@${version}`,
+    });
+  });
+
+  it("falls back to the bundled source when cdn has no URL", async () => {
+    const nuxt = createNuxtMock();
+
+    // @ts-expect-error: runtime module definition shape
+    await moduleDef.setup({ atprotoSource: "cdn" }, nuxt);
+
+    expect(kitMocks.logger.warn).toHaveBeenCalledTimes(1);
+    expect(nuxt.options.runtimeConfig.public.blueskyComments).toEqual({
+      atprotoSource: "bundled",
+    });
+  });
+
+  it("registers the cached proxy routes when enabled", async () => {
+    const nuxt = createNuxtMock();
+
+    // @ts-expect-error: runtime module definition shape
+    await moduleDef.setup({ proxy: { maxAge: 300 } }, nuxt);
+
+    expect(kitMocks.addServerHandler).toHaveBeenCalledWith({
+      route: "/api/_bluesky/thread",
+      method: "get",
+      handler: "./runtime/server/api/thread.get",
+    });
+    expect(kitMocks.addServerHandler).toHaveBeenCalledWith({
+      route: "/api/_bluesky/discover",
+      method: "get",
+      handler: "./runtime/server/api/discover.get",
+    });
+    expect(kitMocks.addServerHandler).toHaveBeenCalledWith({
+      route: "/api/_bluesky/quotes",
+      method: "get",
+      handler: "./runtime/server/api/quotes.get",
+    });
+    expect(kitMocks.addServerHandler).toHaveBeenCalledWith({
+      route: "/api/_bluesky/engagement",
+      method: "get",
+      handler: "./runtime/server/api/engagement.get",
+    });
+    expect(kitMocks.addServerHandler).toHaveBeenCalledWith({
+      route: "/api/_bluesky/live",
+      method: "get",
+      handler: "./runtime/server/api/live.get",
+    });
+    expect(nuxt.options.runtimeConfig.public.blueskyComments).toEqual({
+      proxy: {
+        route: "/api/_bluesky/thread",
+        maxAge: 300,
+        discoverRoute: "/api/_bluesky/discover",
+        quotesRoute: "/api/_bluesky/quotes",
+        engagementRoute: "/api/_bluesky/engagement",
+        liveRoute: "/api/_bluesky/live",
+        jetstreamUrl: "wss://jetstream2.us-east.bsky.network/subscribe",
+      },
+    });
+  });
+
+  it("prerenders snapshot files for pages and configured posts", async () => {
+    const nuxt = createNuxtMock();
+    const post = "at://did:plc:root/app.bsky.feed.post/root";
+
+    // @ts-expect-error: runtime module definition shape
+    await moduleDef.setup({ snapshots: { posts: [post] } }, nuxt);
+
+    expect(kitMocks.addServerHandler).toHaveBeenCalledWith({
+      route: "/_bluesky/snapshots/**",
+      method: "get",
+      handler: "./runtime/server/api/snapshot.get",
+      env: "prerender",
+    });
+    expect(nuxt.options.runtimeConfig.public.blueskyComments).toEqual({
+      snapshots: { route: "/_bluesky/snapshots", posts: [post], revalidate: true },
+    });
+
+    const [hookName, addRoutes] = nuxt.hook.mock.calls[0]!;
+    const routes = new Set<string>();
+    addRoutes({ routes });
+    expect(hookName).toBe("prerender:routes");
+    expect([...routes]).toEqual([
+      snapshotPrerenderRoute("/_bluesky/snapshots", { posts: [post], flatten: true }),
+    ]);
+
+    // Files are written without the descriptor query
+    const [initHook, init] = nuxt.hook.mock.calls[1]!;
+    const nitroHook = vi.fn();
+    init({ hooks: { hook: nitroHook } });
+    const generate = nitroHook.mock.calls[0]![1];
+    const route = { route: [...routes][0]!, fileName: [...routes][0]! };
+    generate(route);
+    expect(initHook).toBe("nitro:init");
+    expect(route.route).toMatch(/^\/_bluesky\/snapshots\/[0-9a-f]{64}\.json$/);
+    expect(route.fileName).toBe(route.route);
+  });
+
+  it("serves OAuth client metadata at the client ID and restores sessions on the client", async () => {
+    const nuxt = createNuxtMock();
+    const clientId = "https://example.com/oauth/client-metadata.json";
+
+    // @ts-expect-error: runtime module definition shape
+    await moduleDef.setup({ oauth: { clientMetadata: { client_id: clientId } } }, nuxt);
+
+    expect(kitMocks.addServerHandler).toHaveBeenCalledWith({
+      route: "/oauth/client-metadata.json",
+      method: "get",
+      handler: "./runtime/server/api/oauth-client-metadata.get",
+    });
+    expect(kitMocks.addPlugin).toHaveBeenCalledWith({
+      src: "./runtime/auth.client",
+      mode: "client",
+    });
+    expect(nuxt.options.runtimeConfig.public.blueskyComments).toMatchObject({
+      oauth: {
+        clientMetadata: {
+          client_id: clientId,
+          redirect_uris: ["https://example.com/"],
+          token_endpoint_auth_method: "none",
+          dpop_bound_access_tokens: true,
+        },
+      },
+    });
+  });
+
+  it("disables sign-in when the client ID is not an https URL", async () => {
+    const nuxt = createNuxtMock();
+    const handlerCount = kitMocks.addServerHandler.mock.calls.length;
+
+    // @ts-expect-error: runtime module definition shape
+    await moduleDef.setup({ oauth: { clientMetadata: { client_id: "client" } } }, nuxt);
+
+    expect(kitMocks.logger.warn).toHaveBeenCalled();
+    expect(kitMocks.addServerHandler).toHaveBeenCalledTimes(handlerCount);
+    expect(nuxt.options.runtimeConfig.public.blueskyComments).toEqual({ oauth: false });
+  });
 });
@@ -0,0 +1,26 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("nitropack/runtime", () => ({
+  defineCachedEventHandler: (handler: unknown, options: unknown) => ({ handler, options }),
+  useRuntimeConfig: () => ({ public: { blueskyComments: { proxy: {} } } }),
+}));
+
+vi.mock("h3", () => ({
+  createError: (input: object) => Object.assign(new Error("error"), input),
+  getQuery: (event: { path: string }) =>
+    Object.fromEntries(new URL(event.path, "http://localhost").searchParams),
+}));
+
+describe("thread proxy route", () => {
+  it("skips the cache only for fresh live refetches", async () => {
+    const route = (await import("../src/runtime/server/api/thread.get")) as unknown as {
+      default: { options: { shouldBypassCache: (event: { path: string }) => boolean } };
+    };
+    const { shouldBypassCache } = route.default.options;
+
+    expect(shouldBypassCache({ path: "/api/_bluesky/thread?uri=at%3A%2F%2Fx" })).toBe(false);
+    expect(shouldBypassCache({ path: "/api/_bluesky/thread?uri=at%3A%2F%2Fx&fresh=true" })).toBe(
+      true,
+    );
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+
+import type { AppBskyFeedDefs } from "@atproto/api";
+import { processQuotes } from "../src/runtime/composables/quotes.logic";
+
+const ROOT = "at://did:plc:root/app.bsky.feed.post/root";
+
+const images = {
+  $type: "app.bsky.embed.images#view",
+  images: [{ thumb: "https://cdn.test/t.jpg", fullsize: "https://cdn.test/f.jpg", alt: "" }],
+};
+
+function quotedRecord(uri: string) {
+  return {
+    $type: "app.bsky.embed.record#view",
+    record: {
+      $type: "app.bsky.embed.record#viewRecord",
+      uri,
+      cid: "c",
+      author: { did: "did:plc:root", handle: "root.test" },
+      value: { text: "quoted", createdAt: "2020-01-01T00:00:00.000Z" },
+      indexedAt: "2020-01-01T00:00:00.000Z",
+    },
+  };
+}
+
+function quote(id: string, embed: unknown): AppBskyFeedDefs.PostView {
+  return {
+    uri: `at://did:plc:q/app.bsky.feed.post/${id}`,
+    cid: id,
+    author: { did: "did:plc:q", handle: "q.test" },
+    record: { text: `quote ${id}`, createdAt: "2020-01-02T00:00:00.000Z" },
+    embed,
+    indexedAt: "2020-01-02T00:00:00.000Z",
+    likeCount: 2,
+    replyCount: 1,
+  } as AppBskyFeedDefs.PostView;
+}
+
+describe("quotes.logic", () => {
+  it("processQuotes: converts quotes to top-level comments without the quoted post", () => {
+    const [plain, withMedia, other] = processQuotes(
+      [
+        quote("a", quotedRecord(ROOT)),
+        quote("b", {
+          $type: "app.bsky.embed.recordWithMedia#view",
+          record: quotedRecord(ROOT),
+          media: images,
+        }),
+        quote("c", quotedRecord("at://did:plc:x/app.bsky.feed.post/other")),
+      ],
+      ROOT,
+    );
+
+    expect(plain).toMatchObject({ id: "a", text: "quote a", depth: 0, likeCount: 2, replies: [] });
+    expect(plain?.embed).toBeUndefined();
+    expect(withMedia?.embed?.type).toBe("images");
+    expect(other?.embed?.type).toBe("record");
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+
+import { parseRichText, segmentHref } from "../src/runtime/composables/richText.logic";
+
+/** Build a facet for the first occurrence of `part` in `text` using UTF-8 byte offsets */
+function facetFor(text: string, part: string, feature: Record<string, string>) {
+  const encoder = new TextEncoder();
+  const charStart = text.indexOf(part);
+  const byteStart = encoder.encode(text.slice(0, charStart)).length;
+  const byteEnd = byteStart + encoder.encode(part).length;
+  return { index: { byteStart, byteEnd }, features: [feature] };
+}
+
+describe("richText.logic", () => {
+  it("parseRichText: returns a single text segment without facets", () => {
+    expect(parseRichText("hello")).toEqual([{ type: "text", text: "hello" }]);
+    expect(parseRichText("")).toEqual([]);
+  });
+
+  it("parseRichText: slices links, mentions and tags by UTF-8 byte offsets", () => {
+    const text = "🦋 hi @alice.test see example.com/lo... #nuxt";
+    const facets = [
+      facetFor(text, "#nuxt", { $type: "app.bsky.richtext.facet#tag", tag: "nuxt" }),
+      facetFor(text, "@alice.test", {
+        $type: "app.bsky.richtext.facet#mention",
+        did: "did:plc:alice",
+      }),
+      facetFor(text, "example.com/lo...", {
+        $type: "app.bsky.richtext.facet#link",
+        uri: "https://example.com/long/path",
+      }),
+    ];
+
+    expect(parseRichText(text, facets)).toEqual([
+      { type: "text", text: "🦋 hi " },
+      { type: "mention", text: "@alice.test", did: "did:plc:alice" },
+      { type: "text", text: " see " },
+      { type: "link", text: "example.com/lo...", uri: "https://example.com/long/path" },
+      { type: "text", text: " " },
+      { type: "tag", text: "#nuxt", tag: "nuxt" },
+    ]);
+  });
+
+  it("parseRichText: renders unsafe links, overlapping and out-of-range facets as text", () => {
+    const text = "click me now";
+    const facets = [
+      facetFor(text, "click", {
+        $type: "app.bsky.richtext.facet#link",
+        uri: "javascript:alert(1)",
+      }),
+      facetFor(text, "click me", { $type: "app.bsky.richtext.facet#tag", tag: "overlap" }),
+      {
+        index: { byteStart: 9, byteEnd: 99 },
+        features: [{ $type: "app.bsky.richtext.facet#tag", tag: "x" }],
+      },
+    ];
+
+    expect(parseRichText(text, facets)).toEqual([{ type: "text", text: "click me now" }]);
+  });
+
+  it("segmentHref: builds profile and hashtag URLs", () => {
+    expect(segmentHref({ type: "mention", text: "@a", did: "did:plc:a" })).toBe(
+      "https://bsky.app/profile/did:plc:a",
+    );
+    expect(segmentHref({ type: "tag", text: "#c++", tag: "c++" })).toBe(
+      "https://bsky.app/hashtag/c%2B%2B",
+    );
+    expect(segmentHref({ type: "text", text: "x" })).toBe("");
+  });
+});
@@ -0,0 +1,175 @@
+import { createHash } from "node:crypto";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { fetchBlueskySnapshot } from "../src/runtime/composables/snapshot";
+import {
+  decodeSnapshotKey,
+  encodeSnapshotKey,
+  snapshotFileName,
+  snapshotPath,
+  snapshotPrerenderRoute,
+} from "../src/runtime/composables/snapshot.logic";
+
+const ROOT = "at://did:plc:root/app.bsky.feed.post/root";
+const CID = "bafyreie5737gdxlw5i64vzichcalba3z2v5n6icifvx5xytvske7mr3hpm";
+
+function post(uri: string, did: string, text: string) {
+  return {
+    uri,
+    cid: CID,
+    author: { did, handle: `${did.slice(8)}.test` },
+    record: { $type: "app.bsky.feed.post", text, createdAt: "2024-01-01T00:00:00.000Z" },
+    indexedAt: "2024-01-01T00:00:00.000Z",
+    likeCount: 1,
+    replyCount: 1,
+  };
+}
+
+// Local AppView answering the XRPC calls a snapshot makes
+const requests: string[] = [];
+const server: Server = createServer((req, res) => {
+  const url = new URL(req.url!, "http://localhost");
+  requests.push(url.pathname);
+  const reply = (status: number, body: unknown) => {
+    res.writeHead(status, { "content-type": "application/json" });
+    res.end(JSON.stringify(body));
+  };
+
+  switch (url.pathname) {
+    case "/xrpc/app.bsky.feed.searchPosts":
+      return reply(200, {
+        posts:
+          url.searchParams.get("url") === "https://example.com/blog/hello"
+            ? [
+                {
+                  ...post(ROOT, "did:plc:root", "New post"),
+                  record: {
+                    $type: "app.bsky.feed.post",
+                    text: "New post",
+                    createdAt: "2024-01-01T00:00:00.000Z",
+                    embed: {
+                      $type: "app.bsky.embed.external",
+                      external: {
+                        uri: "https://example.com/blog/hello",
+                        title: "",
+                        description: "",
+                      },
+                    },
+                  },
+                },
+              ]
+            : [],
+      });
+    case "/xrpc/app.bsky.feed.getPostThread":
+      if (url.searchParams.get("uri") !== ROOT) {
+        return reply(400, { error: "NotFound", message: "Post not found" });
+      }
+      return reply(200, {
+        thread: {
+          $type: "app.bsky.feed.defs#threadViewPost",
+          post: post(ROOT, "did:plc:root", "New post"),
+          replies: [
+            {
+              $type: "app.bsky.feed.defs#threadViewPost",
+              post: post("at://did:plc:alice/app.bsky.feed.post/a", "did:plc:alice", "Nice"),
+              replies: [],
+            },
+          ],
+        },
+      });
+    default:
+      return reply(404, { error: "MethodNotImplemented" });
+  }
+});
+
+let apiService = "";
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  apiService = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("snapshot", () => {
+  it("encodeSnapshotKey: round-trips and rejects other keys", () => {
+    const descriptor = { posts: [ROOT, "https://bsky.app/profile/ü.test/post/x"], flatten: true };
+    const key = encodeSnapshotKey(descriptor);
+
+    expect(key).toMatch(/^[\w-]+$/);
+    expect(decodeSnapshotKey(key)).toEqual(descriptor);
+    expect(decodeSnapshotKey("not-a-snapshot")).toBeNull();
+    expect(decodeSnapshotKey(encodeSnapshotKey({ flatten: true }))).toBeNull();
+  });
+
+  it("snapshotPath: names files by the SHA-256 of the descriptor", () => {
+    // Enough aggregated posts for the encoded descriptor to exceed a file name
+    const posts = Array.from(
+      { length: 8 },
+      (_, i) => `https://bsky.app/profile/author-${i}.bsky.social/post/3kabcdefghij${i}`,
+    );
+    const descriptor = { posts, flatten: false, depth: 3 };
+    const json = JSON.stringify({ posts, flatten: false, depth: 3 });
+    const hash = createHash("sha256").update(json).digest("hex");
+
+    expect(encodeSnapshotKey(descriptor).length).toBeGreaterThan(255);
+    expect(snapshotFileName(descriptor)).toBe(`${hash}.json`);
+    expect(snapshotPath("/_bluesky/snapshots/", descriptor)).toBe(
+      `/_bluesky/snapshots/${hash}.json`,
+    );
+    expect(snapshotPrerenderRoute("/_bluesky/snapshots", descriptor)).toBe(
+      `/_bluesky/snapshots/${hash}.json?key=${encodeSnapshotKey(descriptor)}`,
+    );
+
+    // Same descriptor, same file; any change, another file
+    expect(snapshotFileName({ depth: 3, flatten: false, posts })).toBe(`${hash}.json`);
+    expect(snapshotFileName({ ...descriptor, depth: 4 })).not.toBe(`${hash}.json`);
+  });
+
+  it("snapshotFileName: hashes multi-block and non-ASCII keys", () => {
+    for (const url of ["https://example.com/ü", `https://example.com/${"x".repeat(120)}`]) {
+      const descriptor = { discover: { url }, flatten: true };
+      const json = JSON.stringify({ discover: { url }, flatten: true });
+      expect(snapshotFileName(descriptor)).toBe(
+        `${createHash("sha256").update(json).digest("hex")}.json`,
+      );
+    }
+  });
+
+  it("fetchBlueskySnapshot: fetches the thread from the AppView", async () => {
+    const snapshot = await fetchBlueskySnapshot({ posts: [ROOT], flatten: true }, { apiService });
+
+    expect(snapshot.thread?.postUrl).toBe("https://bsky.app/profile/root.test/post/root");
+    expect(snapshot.thread?.comments.map((comment) => comment.text)).toEqual(["Nice"]);
+    expect(snapshot.sources).toEqual([]);
+    expect(Date.parse(snapshot.generatedAt)).not.toBeNaN();
+  });
+
+  it("fetchBlueskySnapshot: discovers the post of a page", async () => {
+    const found = await fetchBlueskySnapshot(
+      { discover: { url: "https://example.com/blog/hello" }, flatten: true },
+      { apiService },
+    );
+    expect(found.thread?.post.uri).toBe(ROOT);
+
+    const missing = await fetchBlueskySnapshot(
+      { discover: { url: "https://example.com/blog/draft" }, flatten: true },
+      { apiService },
+    );
+    expect(missing.thread).toBeNull();
+    expect(requests).toContain("/xrpc/app.bsky.feed.searchPosts");
+  });
+
+  it("fetchBlueskySnapshot: fails when the post can't be fetched", async () => {
+    await expect(
+      fetchBlueskySnapshot(
+        { posts: ["at://did:plc:root/app.bsky.feed.post/gone"], flatten: true },
+        { apiService },
+      ),
+    ).rejects.toThrow("Post not found");
+  });
+});
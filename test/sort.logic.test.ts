@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+
+import type { FlattenedComment } from "../src/runtime/types";
+import { sortComments } from "../src/runtime/composables/sort.logic";
+import { comment } from "./fixtures/comment";
+
+const ids = (comments: FlattenedComment[]) => comments.map((c) => c.id);
+
+describe("sort.logic", () => {
+  const a = comment("a", { likeCount: 1, replyCount: 5, createdAt: "2024-01-02T00:00:00.000Z" });
+  const b = comment("b", { likeCount: 10, replyCount: 0, createdAt: "2024-01-01T00:00:00.000Z" });
+  const c = comment("c", { likeCount: 3, replyCount: 5, createdAt: "2024-01-03T00:00:00.000Z" });
+
+  it("sortComments: built-in orders", () => {
+    expect(ids(sortComments([a, b, c], "top"))).toEqual(["b", "c", "a"]);
+    expect(ids(sortComments([a, b, c], "newest"))).toEqual(["c", "a", "b"]);
+    expect(ids(sortComments([a, b, c], "oldest"))).toEqual(["b", "a", "c"]);
+    expect(ids(sortComments([a, b, c], "controversial"))).toEqual(["a", "c", "b"]);
+  });
+
+  it("sortComments: accepts a custom comparator and keeps ties stable", () => {
+    const byId = (x: FlattenedComment, y: FlattenedComment) => y.id.localeCompare(x.id);
+    expect(ids(sortComments([a, b, c], byId))).toEqual(["c", "b", "a"]);
+    expect(ids(sortComments([c, a, b], () => 0))).toEqual(["c", "a", "b"]);
+  });
+
+  it("sortComments: sorts nested replies at every depth", () => {
+    const parent = comment("p", { replies: [a, b, c] });
+    const [sorted] = sortComments([parent], "newest");
+    expect(ids(sorted!.replies)).toEqual(["c", "a", "b"]);
+  });
+
+  it("sortComments: keeps continuation groups together", () => {
+    const head = comment("head", { did: "did:x", likeCount: 0 });
+    const cont1 = comment("cont1", { did: "did:x", likeCount: 50, continuationOf: head.uri });
+    const cont2 = comment("cont2", { did: "did:x", likeCount: 90, continuationOf: cont1.uri });
+    const other = comment("other", { likeCount: 5 });
+
+    expect(ids(sortComments([head, cont1, cont2, other], "top"))).toEqual([
+      "other",
+      "head",
+      "cont1",
+      "cont2",
+    ]);
+  });
+
+  it("sortComments: pins the post author's replies first", () => {
+    const op = comment("op", { did: "did:op", likeCount: 0 });
+    const sorted = sortComments([a, b, op], "top", { pinAuthorDid: "did:op" });
+    expect(ids(sorted)).toEqual(["op", "b", "a"]);
+  });
+
+  it("sortComments: keeps replies posted from the page first", () => {
+    const op = comment("op", { did: "did:op" });
+    const mine = { ...comment("mine"), localState: "posted" as const };
+    const sorted = sortComments([a, op, b, mine], "top", { pinAuthorDid: "did:op" });
+    expect(ids(sorted)).toEqual(["mine", "op", "b", "a"]);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+
+import type { AppBskyFeedDefs } from "@atproto/api";
+import type { FlattenedComment } from "../src/runtime/types";
+import {
+  buildDiscussionJsonLd,
+  serializeJsonLd,
+} from "../src/runtime/composables/structuredData.logic";
+import { comment } from "./fixtures/comment";
+
+const post = {
+  uri: "at://did:plc:root/app.bsky.feed.post/root",
+  cid: "root",
+  author: { did: "did:plc:root", handle: "root.test", displayName: "Root" },
+  record: { text: "New blog post", createdAt: "2024-01-01T00:00:00.000Z" },
+  indexedAt: "2024-01-01T00:00:00.000Z",
+} as AppBskyFeedDefs.PostView;
+
+const thread = (comments: FlattenedComment[]) => ({
+  post,
+  postUrl: "https://bsky.app/profile/root.test/post/root",
+  stats: { likeCount: 10, repostCount: 2, replyCount: 4, quoteCount: 0 },
+  comments,
+});
+
+describe("structuredData.logic", () => {
+  it("buildDiscussionJsonLd: describes the post, its stats and nested comments", () => {
+    const a = comment("a", {
+      text: "comment a",
+      createdAt: "2024-01-02T00:00:00.000Z",
+      replies: [comment("b")],
+    });
+    const jsonLd = buildDiscussionJsonLd(thread([a]));
+
+    expect(jsonLd).toMatchObject({
+      "@type": "DiscussionForumPosting",
+      url: "https://bsky.app/profile/root.test/post/root",
+      text: "New blog post",
+      datePublished: "2024-01-01T00:00:00.000Z",
+      author: { "@type": "Person", name: "Root", alternateName: "@root.test" },
+      commentCount: 4,
+      interactionStatistic: [
+        { interactionType: "https://schema.org/LikeAction", userInteractionCount: 10 },
+        { interactionType: "https://schema.org/ShareAction", userInteractionCount: 2 },
+        { interactionType: "https://schema.org/CommentAction", userInteractionCount: 4 },
+      ],
+      comment: [
+        {
+          "@type": "Comment",
+          url: "https://bsky.app/profile/a.test/post/a",
+          text: "comment a",
+          dateCreated: "2024-01-02T00:00:00.000Z",
+          author: { name: "a.test" },
+          comment: [{ "@type": "Comment", url: "https://bsky.app/profile/b.test/post/b" }],
+        },
+      ],
+    });
+  });
+
+  it("buildDiscussionJsonLd: caps comments and leaves out blurred ones", () => {
+    const blurred = comment("x", {
+      moderation: { action: "blur", labels: ["spam"] },
+      replies: [comment("y")],
+    });
+    const jsonLd = buildDiscussionJsonLd(
+      thread([blurred, comment("a", { replies: [comment("b")] }), comment("c")]),
+      { maxComments: 2 },
+    );
+
+    const comments = jsonLd.comment as { url: string; comment?: { url: string }[] }[];
+    expect(comments.map((c) => c.url)).toEqual(["https://bsky.app/profile/a.test/post/a"]);
+    expect(comments[0]?.comment?.map((c) => c.url)).toEqual([
+      "https://bsky.app/profile/b.test/post/b",
+    ]);
+    expect(buildDiscussionJsonLd(thread([]))).not.toHaveProperty("comment");
+  });
+
+  it("serializeJsonLd: escapes markup in comment text", () => {
+    expect(serializeJsonLd({ text: "</script><script>alert(1)" })).toBe(
+      '{"text":"\\u003c/script>\\u003cscript>alert(1)"}',
+    );
+  });
+});
@@ -0,0 +1,4 @@
+// Nuxt auto-imports used by the runtime components, for mounting them outside a Nuxt app
+export const useNuxtApp = () => ({});
+export const useRuntimeConfig = () => ({ public: { blueskyComments: {} } });
+export const useHead = () => {};
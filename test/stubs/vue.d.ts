@@ -0,0 +1,6 @@
+// `tsc` has no SFC support: components imported by tests are typed loosely
+declare module "*.vue" {
+  import type { DefineComponent } from "vue";
+  const component: DefineComponent;
+  export default component;
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+
+import type { AppBskyFeedDefs } from "@atproto/api";
+import { getHiddenReplies, getReplyGate } from "../src/runtime/composables/threadgate.logic";
+
+function threadgate(record: Record<string, unknown>, lists: string[] = []) {
+  return {
+    uri: "at://did:plc:root/app.bsky.feed.threadgate/root",
+    record: { $type: "app.bsky.feed.threadgate", post: "at://x", createdAt: "", ...record },
+    lists: lists.map((name) => ({ uri: `at://${name}`, cid: name, name, purpose: "" })),
+  } as AppBskyFeedDefs.ThreadgateView;
+}
+
+describe("threadgate.logic", () => {
+  it("getHiddenReplies: reads hidden reply URIs", () => {
+    expect(getHiddenReplies(undefined)).toEqual([]);
+    expect(getHiddenReplies(threadgate({ hiddenReplies: ["at://a", "at://b"] }))).toEqual([
+      "at://a",
+      "at://b",
+    ]);
+  });
+
+  it("getReplyGate: returns null when anyone can reply", () => {
+    expect(getReplyGate(undefined)).toBeNull();
+    expect(getReplyGate(threadgate({ hiddenReplies: ["at://a"] }))).toBeNull();
+  });
+
+  it("getReplyGate: maps allow rules and list names", () => {
+    expect(
+      getReplyGate(
+        threadgate(
+          {
+            allow: [
+              { $type: "app.bsky.feed.threadgate#mentionRule" },
+              { $type: "app.bsky.feed.threadgate#followingRule" },
+              { $type: "app.bsky.feed.threadgate#listRule", list: "at://list" },
+              { $type: "app.bsky.feed.threadgate#unknownRule" },
+            ],
+          },
+          ["Friends"],
+        ),
+      ),
+    ).toEqual({ allow: ["mention", "following", "list"], lists: ["Friends"] });
+  });
+
+  it("getReplyGate: empty allow list means replies are disabled", () => {
+    expect(getReplyGate(threadgate({ allow: [] }))).toEqual({ allow: [], lists: [] });
+  });
+});
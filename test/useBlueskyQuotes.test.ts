@@ -0,0 +1,40 @@
+import { describe, expect, it, vi } from "vitest";
+import { unref } from "vue";
+
+import { comment } from "./fixtures/comment";
+
+const fetchBlueskyQuotes = vi.hoisted(() => vi.fn());
+
+vi.mock("../src/runtime/composables/blueskyQuotes", () => ({ fetchBlueskyQuotes }));
+
+import { useBlueskyQuotes } from "../src/runtime/composables/useBlueskyQuotes";
+
+const ROOT = "at://did:plc:root/app.bsky.feed.post/root";
+
+describe("useBlueskyQuotes", () => {
+  it("moderates quotes like replies", async () => {
+    fetchBlueskyQuotes.mockResolvedValue({
+      quotes: [
+        comment("muted", { did: "did:plc:muted" }),
+        comment("word", { text: "big spoiler inside" }),
+        comment("labelled", { labels: ["nudity"] }),
+        comment("spam", { labels: ["spam"] }),
+        comment("fine"),
+      ],
+    });
+
+    const { quotes, hiddenCount, loadMore } = useBlueskyQuotes(ROOT, {
+      mutedDids: ["did:plc:muted"],
+      mutedWords: ["spoiler"],
+    });
+    await loadMore();
+
+    expect(unref(quotes).map((q) => q.id)).toEqual(["labelled", "fine"]);
+    expect(unref(quotes)[0]?.moderation).toEqual({
+      action: "blur",
+      labels: ["nudity"],
+      hiddenByAuthor: undefined,
+    });
+    expect(unref(hiddenCount)).toBe(3);
+  });
+});
@@ -1,6 +1,12 @@
+import { fileURLToPath } from "node:url";
+import vue from "@vitejs/plugin-vue";
 import { defineConfig } from "vitest/config";
 
 export default defineConfig({
+  plugins: [vue()],
+  resolve: {
+    alias: { "#imports": fileURLToPath(new URL("./test/stubs/imports.ts", import.meta.url)) },
+  },
   test: {
     environment: "node",
     include: ["test/**/*.test.ts"],